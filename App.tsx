@@ -1,7 +1,42 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import type { Peer } from 'peerjs';
+import type { Peer, MediaConnection, DataConnection } from 'peerjs';
 import StreamDisplay from './components/CameraView';
-import type { ConnectionStatus } from './types';
+import BridgeSettings from './components/BridgeSettings';
+import SyncStatus from './components/SyncStatus';
+import SlotControls from './components/SlotControls';
+import PeerSettingsPanel from './components/PeerSettingsPanel';
+import OpenCVDiagnostics from './components/OpenCVDiagnostics';
+import QualityBadge from './components/QualityBadge';
+import CameraControls from './components/CameraControls';
+import RecordingControls from './components/RecordingControls';
+import ReplayControls from './components/ReplayControls';
+import KeyframeTimeline from './components/KeyframeTimeline';
+import CalibrationPanel from './components/CalibrationPanel';
+import StereoCalibrationPanel from './components/StereoCalibrationPanel';
+import PanoramaPanel from './components/PanoramaPanel';
+import TestSourceSettings from './components/TestSourceSettings';
+import { useCameras } from './hooks/useCameras';
+import { useConsoleSlots } from './hooks/useConsoleSlots';
+import { useConsolePeer, useConsolePeerInfo, useSlotConnection } from './hooks/useConsolePeer';
+import { useSessionReplay } from './hooks/useSessionReplay';
+import { frameBridge } from './lib/frameBridge';
+import { keyframeTimeline } from './lib/keyframes';
+import { transcriptionHistory } from './lib/transcriptions';
+import { getCasterId } from './lib/casterIdentity';
+import { createPeer, encodeSharedPeerSettings, applySharedPeerSettings, PEER_SETTINGS_PARAM } from './lib/peerConfig';
+import { watchHeartbeat, sendLinkMessage, SlotOffer } from './lib/casterLink';
+import { formatPairingSecret, normalizePairingSecret, signChallenge, PAIRING_SECRET_PARAM, SLOT_PARAM } from './lib/pairing';
+import { consolePeer } from './lib/consolePeer';
+import { readCameraState, applyCameraCommand, CameraCommand, CameraState } from './lib/cameraControl';
+import { MAX_CONSOLE_SLOTS } from './lib/consoleSlots';
+import type { ReplaySlot } from './lib/sessionReplay';
+import {
+  QUALITY_PROFILES, QualityProfileId, isQualityProfileId, loadQualityProfile, saveQualityProfile,
+  captureConstraints, applyContentHint, applySenderLimits,
+} from './lib/qualityProfiles';
+import { createTestStream, describeTestSource, parseTestSource, releaseTestSource, DEFAULT_TEST_SCENE } from './lib/testSource';
+import type { CameraIdentity } from './lib/calibration';
+import type { ConnectionStatus, CasterCallMetadata, SlotSource, TestSource } from './types';
 
 // --- QR Code Component ---
 const QRCodeDisplay: React.FC<{ value: string }> = ({ value }) => {
@@ -53,15 +88,57 @@ const QRCodeDisplay: React.FC<{ value: string }> = ({ value }) => {
 
 
 // --- Caster (Phone) Component ---
-const CasterView: React.FC<{ initialConsoleId: string | null }> = ({ initialConsoleId }) => {
+const RECONNECT_MIN_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 15000;
+// Peer errors after which redialing can still succeed
+const RECOVERABLE_PEER_ERRORS = ['peer-unavailable', 'network', 'disconnected', 'server-error', 'socket-error', 'socket-closed', 'webrtc'];
+
+const CasterView: React.FC<{
+  initialConsoleId: string | null,
+  initialSecret: string | null,
+  // Slot whose QR code was scanned
+  initialSlotId: string | null,
+  // Streams a test source instead of the camera, e.g. for headless runs
+  initialTestSource: TestSource | null
+}> = ({ initialConsoleId, initialSecret, initialSlotId, initialTestSource }) => {
   const [consoleId, setConsoleId] = useState<string | null>(initialConsoleId);
   const [inputValue, setInputValue] = useState('');
+  const [secretInput, setSecretInput] = useState('');
   const [status, setStatus] = useState<ConnectionStatus>('initializing');
   const [error, setError] = useState<string | null>(null);
+  // Why the last connection dropped, shown while reconnecting
+  const [notice, setNotice] = useState<string | null>(null);
   const [localStream, setLocalStream] = useState<MediaStream | null>(null);
   const [facingMode, setFacingMode] = useState<'user' | 'environment'>('environment');
-  const peerRef = useRef<Peer | null>(null);
+  const [showPeerSettings, setShowPeerSettings] = useState(false);
+  // Console slots as last offered, and the one we stream into
+  const [slotOffers, setSlotOffers] = useState<SlotOffer[] | null>(null);
+  const [assignedSlot, setAssignedSlot] = useState<{ id: string, label: string } | null>(null);
+  const [choosingSlot, setChoosingSlot] = useState(false);
+  const [testSource, setTestSource] = useState<TestSource | null>(initialTestSource);
+  const [qualityProfile, setQualityProfile] = useState<QualityProfileId>(loadQualityProfile);
   const videoRef = useRef<HTMLVideoElement>(null);
+  const localStreamRef = useRef<MediaStream | null>(null);
+  const facingModeRef = useRef(facingMode);
+  const dialRef = useRef<(() => void) | null>(null);
+  // Pairing PIN of the console, and the token it gave us to redial with after the PIN changes
+  const secretRef = useRef(normalizePairingSecret(initialSecret ?? ''));
+  const tokenRef = useRef<string | null>(null);
+  // Slot to claim when (re)connecting; the assigned one once streaming
+  const wantedSlotRef = useRef<string | null>(initialSlotId);
+  const claimRef = useRef<((slotId: string | null) => void) | null>(null);
+  const testSourceRef = useRef(testSource);
+  const qualityProfileRef = useRef(qualityProfile);
+  // Stops the render loop or video behind a test stream
+  const stopTestStreamRef = useRef<(() => void) | null>(null);
+
+  localStreamRef.current = localStream;
+  facingModeRef.current = facingMode;
+  testSourceRef.current = testSource;
+  qualityProfileRef.current = qualityProfile;
+
+  // A picked video file is released once another source replaces it
+  useEffect(() => () => releaseTestSource(testSource), [testSource]);
 
   useEffect(() => {
     if (!consoleId) {
@@ -69,46 +146,283 @@ const CasterView: React.FC<{ initialConsoleId: string | null }> = ({ initialCons
       return;
     }
 
-    const peer = new window.Peer();
-    peerRef.current = peer;
+    let peer: Peer | null = null;
+    let call: MediaConnection | null = null;
+    let link: DataConnection | null = null;
+    let stopHeartbeat: (() => void) | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let retryDelay = RECONNECT_MIN_DELAY_MS;
+    let disposed = false;
 
-    peer.on('open', () => {
-      console.log('Caster PeerJS opened');
-      getStream(facingMode);
-    });
+    const hangUp = () => {
+      stopHeartbeat?.();
+      stopHeartbeat = null;
+      // Clear the references first so the close events below are recognised as stale
+      const oldCall = call;
+      const oldLink = link;
+      call = null;
+      link = null;
+      claimRef.current = null;
+      oldCall?.close();
+      oldLink?.close();
+    };
 
-    peer.on('error', (err) => {
-      console.error('PeerJS error:', err);
-      setError('Connection error. Please refresh and try again.');
-      setStatus('error');
-    });
+    const scheduleRedial = () => {
+      if (disposed) return;
+      if (retryTimer) clearTimeout(retryTimer);
+      retryTimer = setTimeout(dial, retryDelay);
+      retryDelay = Math.min(retryDelay * 2, RECONNECT_MAX_DELAY_MS);
+    };
+
+    const connectionLost = (reason: string) => {
+      if (disposed) return;
+      console.warn('Connection to console lost:', reason);
+      hangUp();
+      setNotice(reason);
+      setStatus('reconnecting');
+      setChoosingSlot(false);
+      scheduleRedial();
+    };
+
+    // Redialing cannot fix a wrong or revoked PIN; go back to the code entry form
+    const pairingRejected = (reason: string) => {
+      if (disposed) return;
+      console.warn('Console rejected pairing:', reason);
+      hangUp();
+      setError(`The console rejected this phone: ${reason} Scan the console's current QR code, or enter its code and PIN again.`);
+      setAssignedSlot(null);
+      setSlotOffers(null);
+      setChoosingSlot(false);
+      setConsoleId(null);
+    };
+
+    const openPeer = () => {
+      peer = createPeer();
+      const p = peer;
+
+      p.on('open', () => {
+        console.log('Caster PeerJS opened');
+        if (localStreamRef.current) dial();
+        else getStream(facingModeRef.current);
+      });
+
+      // Lost the signaling server (network switch, sleep); the media path may still be fine
+      p.on('disconnected', () => {
+        if (!disposed && !p.destroyed) setTimeout(() => !disposed && p.disconnected && !p.destroyed && p.reconnect(), RECONNECT_MIN_DELAY_MS);
+      });
+
+      p.on('error', (err) => {
+        if (RECOVERABLE_PEER_ERRORS.includes(err.type)) {
+          connectionLost(err.type === 'peer-unavailable' ? 'Console not reachable.' : 'Network connection lost.');
+          return;
+        }
+        console.error('PeerJS error:', err);
+        setError('Connection error. Please refresh and try again.');
+        setStatus('error');
+      });
+    };
+
+    const dial = () => {
+      if (retryTimer) clearTimeout(retryTimer);
+      retryTimer = null;
+      const stream = localStreamRef.current;
+      if (disposed || !stream) return;
+      if (!peer || peer.destroyed) return openPeer(); // dials again once open
+      if (peer.disconnected) return peer.reconnect();
+      if (!peer.open) return;
+
+      hangUp();
+      setStatus(current => current === 'reconnecting' ? current : 'connecting');
+      const metadata: CasterCallMetadata = {
+        casterId: getCasterId(),
+        cameraLabel: stream.getVideoTracks()[0]?.label || (testSourceRef.current ? describeTestSource(testSourceRef.current) : facingModeRef.current),
+        qualityProfile: qualityProfileRef.current,
+      };
+      // The call is placed once the console paired us and assigned a slot
+      const newLink = peer.connect(consoleId, { metadata, reliable: true });
+      if (!newLink) {
+        connectionLost('Could not reach the console.');
+        return;
+      }
+      link = newLink;
+      let claimed = false;
+
+      const claim = (slotId: string | null) => {
+        claimed = true;
+        sendLinkMessage(newLink, { type: 'claim-slot', slotId });
+      };
+      claimRef.current = claim;
+
+      stopHeartbeat = watchHeartbeat(newLink, {
+        sendPings: true,
+        onTimeout: () => newLink === link && connectionLost('Console stopped responding.'),
+        onMessage: (message) => {
+          if (newLink !== link) return;
+          if (message.type === 'auth-challenge') {
+            const keys = [secretRef.current, tokenRef.current].filter((key): key is string => !!key);
+            Promise.all(keys.map(key => signChallenge(key, message.nonce)))
+              .then(proofs => sendLinkMessage(newLink, { type: 'auth-response', proofs }))
+              .catch(err => {
+                console.error('Could not answer the pairing challenge:', err);
+                pairingRejected('This browser cannot sign the pairing challenge (HTTPS is required).');
+              });
+          } else if (message.type === 'auth-ok') {
+            tokenRef.current = message.token;
+            retryDelay = RECONNECT_MIN_DELAY_MS;
+            setError(null);
+          } else if (message.type === 'auth-failed') {
+            pairingRejected(message.reason);
+          } else if (message.type === 'slots') {
+            setSlotOffers(message.slots);
+            setAssignedSlot(current => current && { ...current, label: message.slots.find(offer => offer.id === current.id)?.label ?? current.label });
+            if (claimed) return;
+            // Go back to the slot we had, or the one the QR code was shown on
+            const wanted = wantedSlotRef.current;
+            if (wanted && message.slots.some(offer => offer.id === wanted)) claim(wanted);
+            else setChoosingSlot(true);
+          } else if (message.type === 'slot-assigned') {
+            wantedSlotRef.current = message.slotId;
+            setAssignedSlot({ id: message.slotId, label: message.label });
+            setChoosingSlot(false);
+            placeCall(message.slotId, metadata);
+            setNotice(null);
+            setStatus('streaming');
+            sendCameraState(newLink);
+          } else if (message.type === 'slot-refused') {
+            claimed = false;
+            wantedSlotRef.current = null;
+            const oldCall = call;
+            call = null;
+            oldCall?.close();
+            setAssignedSlot(null);
+            setNotice(message.reason);
+            setStatus('connecting');
+            setChoosingSlot(true);
+          } else if (message.type === 'camera-command') {
+            handleCameraCommand(newLink, message.command);
+          } else if (message.type === 'restart') {
+            // The console saw our video freeze; get a fresh camera track if this one died
+            connectionLost(message.reason);
+            if (stream.getVideoTracks()[0]?.readyState !== 'live') getStream(facingModeRef.current);
+          }
+        },
+      });
+      newLink.on('close', () => newLink === link && connectionLost('Connection closed by console.'));
+    };
+    dialRef.current = dial;
+
+    const placeCall = (slotId: string, metadata: CasterCallMetadata) => {
+      const stream = localStreamRef.current;
+      if (!peer?.open || !stream) return;
+      const oldCall = call;
+      call = null;
+      oldCall?.close();
+      const newCall = peer.call(consoleId, stream, { metadata: { ...metadata, slotId } });
+      if (!newCall) {
+        connectionLost('Could not reach the console.');
+        return;
+      }
+      call = newCall;
+      // Bitrate and frame rate caps can only be set once the sender is negotiated
+      const profile = QUALITY_PROFILES[metadata.qualityProfile ?? qualityProfileRef.current];
+      const pc = newCall.peerConnection;
+      pc.addEventListener('connectionstatechange', () => {
+        if (pc.connectionState === 'connected') applySenderLimits(pc, profile);
+      });
+      newCall.on('stream', () => console.log('Received stream from console unexpectedly.'));
+      newCall.on('close', () => newCall === call && connectionLost('Connection closed by console.'));
+      newCall.on('error', (err) => {
+        console.error('Call error:', err);
+        if (newCall === call) connectionLost(`Call failed: ${err.message}`);
+      });
+    };
+
+    const sendCameraState = (conn: DataConnection, error?: string) => {
+      const track = localStreamRef.current?.getVideoTracks()[0];
+      if (!track) return;
+      sendLinkMessage(conn, { type: 'camera-state', state: readCameraState(track, facingModeRef.current), error });
+    };
+
+    const handleCameraCommand = async (conn: DataConnection, command: CameraCommand) => {
+      const track = localStreamRef.current?.getVideoTracks()[0];
+      if (!track) return;
+      // A new camera means a new call; its link reports the new state once open
+      if (command.action === 'switch-camera') return switchCamera();
+      try {
+        await applyCameraCommand(track, command);
+        sendCameraState(conn);
+      } catch (err) {
+        console.warn('Camera command failed:', command, err);
+        sendCameraState(conn, `The phone rejected this setting${err instanceof Error ? `: ${err.message}` : '.'}`);
+      }
+    };
+
+    // Coming back from a locked screen or a background tab: check the camera and redial now
+    const onVisible = () => {
+      if (document.hidden) return;
+      const track = localStreamRef.current?.getVideoTracks()[0];
+      if (track && track.readyState !== 'live') {
+        getStream(facingModeRef.current);
+      } else if (!link?.open) {
+        retryDelay = RECONNECT_MIN_DELAY_MS;
+        dial();
+      }
+    };
+    document.addEventListener('visibilitychange', onVisible);
+    window.addEventListener('online', onVisible);
+
+    openPeer();
 
     return () => {
-      peer.destroy();
-      localStream?.getTracks().forEach(track => track.stop());
+      disposed = true;
+      dialRef.current = null;
+      if (retryTimer) clearTimeout(retryTimer);
+      document.removeEventListener('visibilitychange', onVisible);
+      window.removeEventListener('online', onVisible);
+      hangUp();
+      peer?.destroy();
+      releaseStream();
     };
   }, [consoleId]);
 
+  // Every new camera stream (first start, camera switch, recovered track) is dialed afresh
   useEffect(() => {
-    if (localStream && peerRef.current?.open && consoleId) {
-        setStatus('connecting');
-        const call = peerRef.current.call(consoleId, localStream);
-        if (!call) {
-            setError('Could not connect to the console. Check the code.');
-            setStatus('error');
-            return;
-        }
-        call.on('stream', () => console.log('Received stream from console unexpectedly.'));
-        call.on('close', () => { setStatus('waiting'); setError('Connection closed by console.'); });
-        call.on('error', (err) => { console.error('Call error:', err); setError(`Call failed: ${err.message}`); setStatus('error'); });
-        setStatus('streaming');
-    }
+    if (localStream) dialRef.current?.();
   }, [localStream]);
 
+  const releaseStream = () => {
+    stopTestStreamRef.current?.();
+    stopTestStreamRef.current = null;
+    localStreamRef.current?.getTracks().forEach(track => track.stop());
+  };
+
+  const getTestStream = async (source: TestSource) => {
+    try {
+      releaseStream();
+      const test = await createTestStream(source);
+      if (test.warning) console.warn(test.warning);
+      applyContentHint(test.stream.getVideoTracks()[0], QUALITY_PROFILES[qualityProfileRef.current]);
+      stopTestStreamRef.current = test.stop;
+      setLocalStream(test.stream);
+      if (videoRef.current) videoRef.current.srcObject = test.stream;
+    } catch (err) {
+      console.error('Test source error:', err);
+      setError(`Could not start the test source: ${err instanceof Error ? err.message : err}`);
+      setStatus('error');
+    }
+  };
+
   const getStream = async (mode: 'user' | 'environment') => {
+    if (testSourceRef.current) return getTestStream(testSourceRef.current);
     try {
-      localStream?.getTracks().forEach(track => track.stop());
-      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: { ideal: mode } }, audio: false });
+      releaseStream();
+      const profile = QUALITY_PROFILES[qualityProfileRef.current];
+      const stream = await navigator.mediaDevices.getUserMedia({ video: captureConstraints(profile, mode), audio: false });
+      applyContentHint(stream.getVideoTracks()[0], profile);
+      // The OS can take the camera away (screen lock, another app); get it back once visible
+      stream.getVideoTracks()[0]?.addEventListener('ended', () => {
+        if (localStreamRef.current === stream && !document.hidden) getStream(facingModeRef.current);
+      });
       setLocalStream(stream);
       if (videoRef.current) videoRef.current.srcObject = stream;
     } catch (err) {
@@ -119,13 +433,40 @@ const CasterView: React.FC<{ initialConsoleId: string | null }> = ({ initialCons
   };
 
   const switchCamera = () => {
-    const newMode = facingMode === 'environment' ? 'user' : 'environment';
+    if (testSourceRef.current) return;
+    const newMode = facingModeRef.current === 'environment' ? 'user' : 'environment';
     setFacingMode(newMode);
     getStream(newMode);
   };
 
+  // A new profile needs new capture constraints and codecs, so it takes a new stream and call
+  const changeQualityProfile = (id: QualityProfileId) => {
+    setQualityProfile(id);
+    qualityProfileRef.current = id;
+    saveQualityProfile(id);
+    if (localStreamRef.current) getStream(facingModeRef.current);
+  };
+
+  // Moving to another slot redials, so the console sets up the new slot from scratch. `null`
+  // takes the next free slot.
+  const chooseSlot = (slotId: string | null) => {
+    if (slotId === assignedSlot?.id) {
+      setChoosingSlot(false);
+    } else if (assignedSlot) {
+      wantedSlotRef.current = slotId;
+      setChoosingSlot(false);
+      dialRef.current?.();
+    } else {
+      claimRef.current?.(slotId);
+    }
+  };
+
   const handleConnect = () => {
     if (inputValue.trim()) {
+      secretRef.current = normalizePairingSecret(secretInput);
+      tokenRef.current = null;
+      wantedSlotRef.current = null;
+      setError(null);
       setConsoleId(inputValue.trim().toLowerCase());
     }
   };
@@ -134,7 +475,8 @@ const CasterView: React.FC<{ initialConsoleId: string | null }> = ({ initialCons
     return (
       <div className="w-full max-w-md mx-auto text-center">
         <h2 className="text-3xl font-bold text-white mb-4">Connect to Console</h2>
-        <p className="text-gray-400 mb-6">Enter the connection code displayed on the console screen.</p>
+        <p className="text-gray-400 mb-6">Enter the connection code and PIN displayed on the console screen.</p>
+        {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
         <div className="flex flex-col sm:flex-row gap-2">
           <input
             type="text"
@@ -145,10 +487,38 @@ const CasterView: React.FC<{ initialConsoleId: string | null }> = ({ initialCons
             className="flex-grow bg-gray-800 border border-gray-600 text-white text-lg rounded-lg px-4 py-3 focus:outline-none focus:ring-2 focus:ring-indigo-500 placeholder-gray-500"
             autoCapitalize="none"
           />
+          <input
+            type="text"
+            value={secretInput}
+            onChange={(e) => setSecretInput(e.target.value)}
+            onKeyPress={(e) => e.key === 'Enter' && handleConnect()}
+            placeholder="PIN"
+            className="sm:w-36 bg-gray-800 border border-gray-600 text-white text-lg font-mono rounded-lg px-4 py-3 focus:outline-none focus:ring-2 focus:ring-indigo-500 placeholder-gray-500"
+            autoCapitalize="characters"
+            autoComplete="off"
+          />
           <button onClick={handleConnect} className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 px-6 rounded-lg transition-colors duration-300">
             Connect
           </button>
         </div>
+        <label className="mt-6 flex items-center justify-center gap-2 text-sm text-gray-400">
+          <input
+            type="checkbox"
+            checked={!!testSource}
+            onChange={(e) => setTestSource(e.target.checked ? { ...DEFAULT_TEST_SCENE } : null)}
+            className="accent-indigo-500"
+          />
+          Stream a test source instead of the camera
+        </label>
+        {testSource && (
+          <div className="mt-3 text-left">
+            <TestSourceSettings source={testSource} onChange={setTestSource} />
+          </div>
+        )}
+        <button onClick={() => setShowPeerSettings(true)} className="mt-6 text-sm text-gray-400 hover:text-white underline">
+          Connection settings
+        </button>
+        {showPeerSettings && <PeerSettingsPanel onClose={() => setShowPeerSettings(false)} />}
       </div>
     );
   }
@@ -157,13 +527,20 @@ const CasterView: React.FC<{ initialConsoleId: string | null }> = ({ initialCons
     if (error) return `Error: ${error}`;
     switch (status) {
       case 'initializing': return 'Initializing Camera...';
-      case 'connecting': return `Connecting to ${consoleId}...`;
-      case 'streaming': return `Streaming to ${consoleId}`;
+      case 'connecting': return choosingSlot ? `Connected to ${consoleId}` : `Connecting to ${consoleId}...`;
+      case 'streaming': return `Streaming to ${consoleId}${assignedSlot ? ` · ${assignedSlot.label}` : ''}`;
+      case 'reconnecting': return `Reconnecting to ${consoleId}...`;
       case 'waiting': return 'Disconnected.';
       default: return 'Starting...';
     }
   };
 
+  // What the camera actually delivers; phones may fall short of the profile
+  const captureSettings = localStream?.getVideoTracks()[0]?.getSettings();
+  const captureSize = captureSettings?.width && captureSettings.height
+    ? `${captureSettings.width}×${captureSettings.height}${captureSettings.frameRate ? ` @ ${Math.round(captureSettings.frameRate)} fps` : ''}`
+    : null;
+
   return (
     <div className="fixed inset-0 bg-black flex flex-col items-center justify-center text-white">
       <video ref={videoRef} muted autoPlay playsInline className="w-full h-full object-cover"></video>
@@ -171,149 +548,514 @@ const CasterView: React.FC<{ initialConsoleId: string | null }> = ({ initialCons
          <p className={`text-lg font-bold ${status === 'streaming' ? 'text-green-400' : status === 'error' ? 'text-red-400' : 'text-yellow-400'}`}>
           {getStatusMessage()}
         </p>
+        {status === 'reconnecting' && notice && <p className="text-sm text-gray-300 mt-1">{notice}</p>}
+        {captureSize && <p className="text-sm text-gray-300 mt-1">{QUALITY_PROFILES[qualityProfile].label} · {captureSize}</p>}
       </div>
-      <div className="absolute bottom-0 left-0 right-0 p-4 flex justify-center">
-        <button onClick={switchCamera} className="p-4 bg-gray-700 bg-opacity-70 rounded-full hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-white" aria-label="Switch Camera">
+      {choosingSlot && slotOffers && (
+        <div className="absolute inset-x-4 bottom-28 max-w-sm mx-auto p-4 bg-gray-900/90 rounded-lg space-y-2">
+          <p className="font-bold">Stream into which slot?</p>
+          {notice && status !== 'reconnecting' && <p className="text-sm text-yellow-400">{notice}</p>}
+          {slotOffers.map(offer => {
+            const mine = offer.id === assignedSlot?.id;
+            return (
+              <button
+                key={offer.id}
+                onClick={() => chooseSlot(offer.id)}
+                disabled={offer.taken && !mine}
+                className="w-full py-2 px-4 rounded-lg bg-indigo-600 hover:bg-indigo-700 font-semibold disabled:bg-gray-700 disabled:text-gray-400"
+              >
+                {offer.label}{mine ? ' (this phone)' : offer.taken ? ' (taken)' : ''}
+              </button>
+            );
+          })}
+          {slotOffers.length === 0 && <p className="text-sm text-gray-400">The console has no phone slots.</p>}
+          <div className="flex gap-2">
+            {assignedSlot ? (
+              <button onClick={() => setChoosingSlot(false)} className="flex-1 py-2 px-4 rounded-lg bg-gray-700 hover:bg-gray-600">Cancel</button>
+            ) : (
+              <button onClick={() => chooseSlot(null)} className="flex-1 py-2 px-4 rounded-lg bg-gray-700 hover:bg-gray-600">Next free slot</button>
+            )}
+          </div>
+        </div>
+      )}
+      <div className="absolute bottom-0 left-0 right-0 p-4 flex justify-center gap-4">
+        {status === 'streaming' && slotOffers && (
+          <button onClick={() => setChoosingSlot(show => !show)} className="px-4 bg-gray-700 bg-opacity-70 rounded-full hover:bg-gray-600 font-semibold focus:outline-none focus:ring-2 focus:ring-white">
+            Slot
+          </button>
+        )}
+        <select
+          value={qualityProfile}
+          onChange={(e) => changeQualityProfile(e.target.value as QualityProfileId)}
+          aria-label="Stream quality"
+          className="px-3 bg-gray-700 bg-opacity-70 rounded-full font-semibold text-white focus:outline-none focus:ring-2 focus:ring-white"
+        >
+          {Object.values(QUALITY_PROFILES).map(profile => <option key={profile.id} value={profile.id}>{profile.label}</option>)}
+        </select>
+        {!testSource && <button onClick={switchCamera} className="p-4 bg-gray-700 bg-opacity-70 rounded-full hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-white" aria-label="Switch Camera">
           <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 text-white" fill="currentColor" viewBox="0 0 16 16">
             <path d="M11.534 7h3.932a.25.25 0 0 1 .192.41l-1.966 2.36a.25.25 0 0 1-.384 0l-1.966-2.36a.25.25 0 0 1 .192-.41zm-11 2h3.932a.25.25 0 0 0 .192-.41L2.692 6.23a.25.25 0 0 0-.384 0L.342 8.59A.25.25 0 0 0 .534 9z"/>
             <path fillRule="evenodd" d="M8 3c-1.552 0-2.94.707-3.857 1.818a.5.5 0 1 1-.771-.636A6.002 6.002 0 0 1 13.917 7H12.5A5.002 5.002 0 0 0 8 3zM3.5 12A5.002 5.002 0 0 0 8 13c1.552 0 2.94-.707-3.857-1.818a.5.5 0 1 1 .771.636A6.002 6.002 0 0 1 2.083 9H3.5A5.002 5.002 0 0 0 8 13z"/>
           </svg>
-        </button>
+        </button>}
       </div>
     </div>
   );
 };
 
-// --- Words for memorable ID generation ---
-const ADJECTIVES = ['agile', 'bright', 'calm', 'desert', 'eager', 'fancy', 'giant', 'happy', 'icy', 'jolly', 'keen', 'lucky', 'magic', 'noble', 'ocean', 'proud', 'quick', 'regal', 'shiny', 'tidal', 'urban', 'vast', 'wild', 'young', 'zesty'];
-const NOUNS = ['river', 'stone', 'star', 'comet', 'forest', 'planet', 'ocean', 'desert', 'meadow', 'island', 'volcano', 'glacier', 'canyon', 'valley', 'plateau', 'geyser', 'nebula', 'galaxy', 'quasar', 'cluster', 'lagoon', 'summit', 'delta', 'fjord', 'reef'];
-
-const generateReadableId = () => {
-    const adj = ADJECTIVES[Math.floor(Math.random() * ADJECTIVES.length)];
-    const noun = NOUNS[Math.floor(Math.random() * NOUNS.length)];
-    const num = Math.floor(Math.random() * 90) + 10;
-    return `${adj}-${noun}-${num}`;
+// --- Streaming slot with per-camera tools ---
+interface RemoteCameraControl {
+  state: CameraState | null;
+  error: string | null;
+  send: (command: CameraCommand) => void;
 }
 
+const StreamingSlot: React.FC<{
+  stream: MediaStream,
+  label: string,
+  slotId: string,
+  camera: CameraIdentity | null,
+  // Only phone slots can be steered remotely
+  cameraControl?: RemoteCameraControl,
+  // Phone slots can cut off their caster and get a new code
+  onRevokePairing?: () => void,
+  // Quality profile the phone streams with
+  qualityProfile?: QualityProfileId
+}> = ({ stream, label, slotId, camera, cameraControl, onRevokePairing, qualityProfile }) => {
+  const [showCalibration, setShowCalibration] = useState(false);
+  const [showControls, setShowControls] = useState(false);
+
+  return (
+    <>
+      <StreamDisplay
+        stream={stream}
+        label={label}
+        slotId={slotId}
+        actions={
+          <>
+            {qualityProfile && <QualityBadge slotId={slotId} profile={qualityProfile} />}
+            <button onClick={() => setShowCalibration(true)} className="text-xs px-2 py-0.5 rounded bg-gray-600 text-gray-300 hover:bg-gray-500 transition-colors">
+              Calibrate
+            </button>
+            {cameraControl && (
+              <button
+                onClick={() => setShowControls(show => !show)}
+                className={`text-xs px-2 py-0.5 rounded transition-colors ${showControls ? 'bg-indigo-600 text-white' : 'bg-gray-600 text-gray-300 hover:bg-gray-500'}`}
+              >
+                Camera
+              </button>
+            )}
+            {onRevokePairing && (
+              <button
+                onClick={() => window.confirm(`Disconnect the camera on "${label}" and replace its code and PIN?`) && onRevokePairing()}
+                className="text-xs px-2 py-0.5 rounded bg-gray-600 text-gray-300 hover:bg-red-600 hover:text-white transition-colors"
+                title="Disconnect this phone and issue a new code and PIN"
+              >
+                Revoke
+              </button>
+            )}
+          </>
+        }
+      />
+      {cameraControl && showControls && (
+        <CameraControls state={cameraControl.state} error={cameraControl.error} onCommand={cameraControl.send} />
+      )}
+      <KeyframeTimeline slotId={slotId} label={label} />
+      {showCalibration && (
+        <CalibrationPanel stream={stream} label={label} camera={camera} onClose={() => setShowCalibration(false)} />
+      )}
+    </>
+  );
+};
+
 // --- Console Connection Manager Component ---
+// Shows one slot of the shared console peer: the code to pair a phone into it, or its stream.
 const ConnectionManager: React.FC<{ 
   label: string, 
-  onStreamChange?: (stream: MediaStream | null) => void
-}> = ({ label, onStreamChange }) => {
-  const [peer, setPeer] = useState<Peer | null>(null);
-  const [peerId, setPeerId] = useState<string | null>(null);
-  const [stream, setStream] = useState<MediaStream | null>(null);
-  const [status, setStatus] = useState<ConnectionStatus>('initializing');
-  const [error, setError] = useState<string | null>(null);
+  slotId: string,
+  onStreamChange?: (stream: MediaStream | null, caster: CasterCallMetadata | null) => void
+}> = ({ label, slotId, onStreamChange }) => {
+  const { status: peerStatus, id: consoleId, secret, error, warning } = useConsolePeerInfo();
+  const { status, stream, caster, cameraState, cameraError } = useSlotConnection(slotId);
 
   const connectionUrl = useMemo(() => {
-    if (!peerId) return null;
+    if (!consoleId) return null;
     const url = new URL(window.location.href);
-    url.search = `?caster=true&consoleId=${peerId}`;
+    const params = new URLSearchParams({ caster: 'true', consoleId, [PAIRING_SECRET_PARAM]: secret, [SLOT_PARAM]: slotId });
+    const peerSettings = encodeSharedPeerSettings();
+    if (peerSettings) params.set(PEER_SETTINGS_PARAM, peerSettings);
+    url.search = `?${params}`;
     return url.toString();
-  }, [peerId]);
+  }, [consoleId, secret, slotId]);
 
   useEffect(() => {
-    const initializePeer = () => {
-        const id = generateReadableId();
-        const p = new window.Peer(id);
-        
-        p.on('open', openId => {
-          setPeerId(openId);
-          setStatus('waiting');
-          setError(null);
-        });
-        
-        p.on('call', call => {
-            setStatus('connecting');
-            call.answer(); 
-            call.on('stream', remoteStream => { 
-              setStream(remoteStream); 
-              setStatus('streaming');
-              if (onStreamChange) onStreamChange(remoteStream);
-            });
-            call.on('close', () => { 
-              setStream(null); 
-              setStatus('waiting');
-              if (onStreamChange) onStreamChange(null);
-            });
-            call.on('error', err => { 
-              console.error('Call error:', err); 
-              setError('Connection with camera failed.'); 
-              setStatus('error');
-              if (onStreamChange) onStreamChange(null);
-            });
-        });
-
-        p.on('error', err => {
-            if (err.type === 'unavailable-id') {
-                console.warn(`Peer ID ${id} is unavailable. Retrying...`);
-                p.destroy();
-                setTimeout(initializePeer, 100); // Retry after a short delay
-            } else {
-                console.error(`PeerJS error for ${label}:`, err);
-                setError('A connection error occurred. Try refreshing.');
-                setStatus('error');
-            }
-        });
-
-        setPeer(p);
-    };
-
-    initializePeer();
-    return () => peer?.destroy();
-  }, [label]);
+    if (onStreamChange) onStreamChange(stream, stream ? caster : null);
+  }, [stream]);
 
+  // Announce this slot and the console code to the Python backend
+  useEffect(() => frameBridge.describeSlot({ slotId, label, peerId: consoleId }), [slotId, label, consoleId]);
 
   if (status === 'streaming' && stream) {
-    return <StreamDisplay stream={stream} label={label} />;
+    return (
+      <StreamingSlot
+        stream={stream}
+        label={label}
+        slotId={slotId}
+        camera={caster}
+        cameraControl={{ state: cameraState, error: cameraError, send: (command) => consolePeer.sendCameraCommand(slotId, command) }}
+        onRevokePairing={() => consolePeer.revoke(slotId)}
+        qualityProfile={isQualityProfileId(caster?.qualityProfile) ? caster.qualityProfile : undefined}
+      />
+    );
   }
 
   return (
-    <StreamDisplay stream={null} label={label}>
+    <StreamDisplay stream={null} label={label} slotId={slotId}>
       <div className="absolute inset-0 bg-black bg-opacity-60 flex flex-col items-center justify-center text-center p-4 backdrop-blur-sm space-y-4">
-        {status === 'waiting' && peerId && connectionUrl ? (
+        {peerStatus === 'error' ? (
+          <p className="text-lg font-semibold text-red-400">{error || "An unknown error occurred."}</p>
+        ) : peerStatus === 'initializing' || !consoleId || !connectionUrl ? (
+          <p className="text-lg font-semibold text-white">Generating Code...</p>
+        ) : status === 'waiting' ? (
           <>
-            <h4 className="text-lg font-semibold text-white">Enter code on phone:</h4>
-            <p className="font-mono tracking-widest text-3xl md:text-4xl text-indigo-300 bg-gray-900/50 px-4 py-2 rounded-lg">{peerId}</p>
-            <p className="text-sm text-gray-400">or scan</p>
+            <h4 className="text-lg font-semibold text-white">Enter code and PIN on phone:</h4>
+            <p className="font-mono tracking-widest text-3xl md:text-4xl text-indigo-300 bg-gray-900/50 px-4 py-2 rounded-lg">{consoleId}</p>
+            <p className="font-mono tracking-widest text-xl text-indigo-200">PIN {formatPairingSecret(secret)}</p>
+            <p className="text-sm text-gray-400">or scan to stream into this slot</p>
             <div className="p-2 bg-white rounded-lg shadow-2xl">
               <QRCodeDisplay value={connectionUrl} />
             </div>
+            <button
+              onClick={() => window.confirm('Replace the PIN? Old QR codes stop working; connected phones stay connected.') && consolePeer.regenerateSecret()}
+              className="text-sm text-gray-400 hover:text-white underline"
+            >
+              New PIN
+            </button>
           </>
-        ) : status === 'initializing' ? (
-          <p className="text-lg font-semibold text-white">Generating Code...</p>
         ) : status === 'connecting' ? (
           <p className="text-lg font-semibold text-white">Camera connecting...</p>
         ) : (
-          <p className="text-lg font-semibold text-red-400">{error || "An unknown error occurred."}</p>
+          <>
+            <p className="text-lg font-semibold text-yellow-400">Connection lost. Waiting for the camera to reconnect...</p>
+            <p className="text-sm text-gray-400">Code: <span className="font-mono text-indigo-300">{consoleId}</span></p>
+          </>
         )}
+        {warning && <p className="text-sm text-amber-400">⚠ {warning}</p>}
+      </div>
+    </StreamDisplay>
+  );
+};
+
+// --- Local (USB/built-in) camera slot ---
+const LocalCameraSlot: React.FC<{
+  label: string,
+  slotId: string,
+  deviceId: string | null,
+  // False while the selected device is unplugged
+  available: boolean,
+  onStreamChange?: (stream: MediaStream | null, camera: CameraIdentity | null) => void
+}> = ({ label, slotId, deviceId, available, onStreamChange }) => {
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [camera, setCamera] = useState<CameraIdentity | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!deviceId || !available) return;
+    let cancelled = false;
+    let acquired: MediaStream | null = null;
+
+    navigator.mediaDevices.getUserMedia({ video: { deviceId: { exact: deviceId } }, audio: false })
+      .then(localStream => {
+        if (cancelled) {
+          localStream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        acquired = localStream;
+        const track = localStream.getVideoTracks()[0];
+        const identity = { casterId: getCasterId(), cameraLabel: track?.label || deviceId };
+        track?.addEventListener('ended', () => {
+          setStream(null);
+          setError('Camera disconnected. Plug it back in or pick another one.');
+          if (onStreamChange) onStreamChange(null, null);
+        });
+        setStream(localStream);
+        setCamera(identity);
+        setError(null);
+        if (onStreamChange) onStreamChange(localStream, identity);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error(`getUserMedia error for ${label}:`, err);
+        setError(err.name === 'NotReadableError' ? 'Camera is in use by another application.' : 'Could not open this camera.');
+      });
+
+    return () => {
+      cancelled = true;
+      acquired?.getTracks().forEach(track => track.stop());
+      setStream(null);
+      if (onStreamChange) onStreamChange(null, null);
+    };
+  }, [deviceId, available]);
+
+  // Announce this slot to the Python backend; local cameras have no peer code
+  useEffect(() => frameBridge.describeSlot({ slotId, label, peerId: null }), [slotId, label]);
+
+  if (stream) {
+    return <StreamingSlot stream={stream} label={label} slotId={slotId} camera={camera} />;
+  }
+
+  const message =
+    !deviceId ? 'Select a camera above.' :
+    !available ? 'Selected camera is unplugged. Waiting for it...' :
+    error || 'Opening camera...';
+
+  return (
+    <StreamDisplay stream={null} label={label} slotId={slotId}>
+      <div className="absolute inset-0 bg-black bg-opacity-60 flex items-center justify-center text-center p-4 backdrop-blur-sm">
+        <p className={`text-lg font-semibold ${error && available ? 'text-red-400' : 'text-white'}`}>{message}</p>
       </div>
     </StreamDisplay>
   );
 };
+// --- Test source slot (synthetic scene or video file) ---
+const TestSourceSlot: React.FC<{
+  label: string,
+  slotId: string,
+  source: TestSource,
+  onStreamChange?: (stream: MediaStream | null, camera: CameraIdentity | null) => void
+}> = ({ label, slotId, source, onStreamChange }) => {
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [camera, setCamera] = useState<CameraIdentity | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [warning, setWarning] = useState<string | null>(null);
+  const ready = source.type === 'scene' || source.url !== '';
+  // Restart only when the settings change, not on every new source object
+  const sourceKey = JSON.stringify(source);
+
+  useEffect(() => {
+    if (!ready) return;
+    let cancelled = false;
+    let stop: (() => void) | null = null;
+
+    createTestStream(source)
+      .then(test => {
+        if (cancelled) {
+          test.stop();
+          return;
+        }
+        stop = test.stop;
+        const identity = { casterId: getCasterId(), cameraLabel: describeTestSource(source) };
+        setStream(test.stream);
+        setCamera(identity);
+        setError(null);
+        setWarning(test.warning);
+        if (onStreamChange) onStreamChange(test.stream, identity);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error(`Test source error for ${label}:`, err);
+        setError(err instanceof Error ? err.message : String(err));
+      });
+
+    return () => {
+      cancelled = true;
+      stop?.();
+      setStream(null);
+      if (onStreamChange) onStreamChange(null, null);
+    };
+  }, [sourceKey]);
+
+  useEffect(() => frameBridge.describeSlot({ slotId, label, peerId: null }), [slotId, label]);
+
+  if (stream) {
+    return (
+      <>
+        <StreamingSlot stream={stream} label={label} slotId={slotId} camera={camera} />
+        {warning && <p className="text-sm text-amber-400">⚠ {warning}</p>}
+      </>
+    );
+  }
+
+  const message = !ready ? 'Enter a video URL or pick a file above.' : error || 'Starting test source...';
+
+  return (
+    <StreamDisplay stream={null} label={label} slotId={slotId}>
+      <div className="absolute inset-0 bg-black bg-opacity-60 flex items-center justify-center text-center p-4 backdrop-blur-sm">
+        <p className={`text-lg font-semibold ${error ? 'text-red-400' : 'text-white'}`}>{message}</p>
+      </div>
+    </StreamDisplay>
+  );
+};
+
+// --- Slot replayed from a recording ---
+const RecordedSlot: React.FC<{ slot: ReplaySlot }> = ({ slot }) => {
+  const { slotId, label, camera, stream } = slot;
+
+  // The backend sees the recorded slot ids, so its results line up with the original session
+  useEffect(() => frameBridge.describeSlot({ slotId, label, peerId: null }), [slotId, label]);
+
+  return <StreamingSlot stream={stream} label={`${label} (replay)`} slotId={slotId} camera={camera} />;
+};
 
 // --- Console (Laptop) Component ---
+interface SlotFeed {
+  stream: MediaStream | null;
+  camera: CameraIdentity | null;
+}
+
+const gridColumns = (count: number) =>
+  count <= 1 ? 'grid-cols-1' :
+  count === 2 || count === 4 ? 'grid-cols-1 md:grid-cols-2' :
+  'grid-cols-1 md:grid-cols-2 xl:grid-cols-3';
+
 const ConsoleView: React.FC = () => {
-  const [stream1, setStream1] = useState<MediaStream | null>(null);
-  const [stream2, setStream2] = useState<MediaStream | null>(null);
+  const { slots, addSlot, removeSlot, updateSlot, moveSlot } = useConsoleSlots();
+  const [feeds, setFeeds] = useState<Record<string, SlotFeed>>({});
+  const [showStereo, setShowStereo] = useState(false);
+  const [showPanorama, setShowPanorama] = useState(false);
+  const [showPeerSettings, setShowPeerSettings] = useState(false);
+  const { devices, error: devicesError, initialized: devicesReady, initializeCameras } = useCameras();
+  const usesLocalCameras = slots.some(slot => slot.source.kind === 'local');
+  // While a recording is open it takes the place of the live slots
+  const replay = useSessionReplay();
+  const replaying = replay.sessionId !== null;
+
+  // Local cameras restored from a saved layout need the device list too
+  useEffect(() => {
+    if (usesLocalCameras && !devicesReady) initializeCameras();
+  }, [usesLocalCameras, devicesReady, initializeCameras]);
+
+  // All phone slots share one console peer; phones choose among the slots listed here
+  useConsolePeer();
+  useEffect(() => {
+    consolePeer.setSlots(slots.filter(slot => slot.source.kind === 'remote').map(({ id, label }) => ({ id, label })));
+  }, [slots]);
+
+  const setFeed = (slotId: string) => (stream: MediaStream | null, camera: CameraIdentity | null) =>
+    setFeeds(prev => ({ ...prev, [slotId]: { stream, camera } }));
+
+  const changeSource = (slotId: string, source: SlotSource) => {
+    updateSlot(slotId, { source });
+    setFeed(slotId)(null, null);
+  };
+
+  const deleteSlot = (slotId: string) => {
+    removeSlot(slotId);
+    setFeed(slotId)(null, null);
+    keyframeTimeline.clear(slotId);
+    transcriptionHistory.clear(slotId);
+  };
+
+  const localDeviceIds = slots.map(slot => slot.source.kind === 'local' ? slot.source.deviceId : null);
+  const streamingSlots = replaying ? replay.slots : slots
+    .filter(slot => feeds[slot.id]?.stream)
+    .map(slot => ({ slotId: slot.id, label: slot.label, camera: feeds[slot.id].camera, stream: feeds[slot.id].stream! }));
   
   return (
      <div className="w-full max-w-7xl flex flex-col items-center">
         <header className="text-center mb-8">
             <h1 className="text-4xl md:text-5xl font-extrabold text-white">
-              Dual Camera <span className="text-indigo-400">Video Stream</span>
+              Multi-Camera <span className="text-indigo-400">Video Stream</span>
             </h1>
-            <p className="mt-2 text-lg text-gray-400">Connect two phones to stream video side-by-side.</p>
+            <p className="mt-2 text-lg text-gray-400">Connect phones or local cameras to stream video side-by-side.</p>
         </header>
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 w-full px-4 md:px-0">
-          <ConnectionManager label="Camera 1 (Left)" onStreamChange={setStream1} />
-          <ConnectionManager label="Camera 2 (Right)" onStreamChange={setStream2} />
+        <div className="w-full flex flex-col sm:flex-row sm:flex-wrap sm:items-center sm:justify-between gap-3 mb-4 px-4 md:px-0">
+          <div className="flex gap-2">
+            <button
+              onClick={addSlot}
+              disabled={slots.length >= MAX_CONSOLE_SLOTS || replaying}
+              className="bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-bold py-1.5 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              + Add camera
+            </button>
+            <button
+              onClick={() => setShowStereo(true)}
+              disabled={streamingSlots.length < 2}
+              className="bg-gray-700 hover:bg-gray-600 text-white text-sm font-bold py-1.5 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Relate two cameras using a ChArUco board both can see"
+            >
+              Stereo calibration
+            </button>
+            <button
+              onClick={() => setShowPanorama(true)}
+              disabled={streamingSlots.length < 2}
+              className="bg-gray-700 hover:bg-gray-600 text-white text-sm font-bold py-1.5 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Stitch two cameras into one view of a wide board"
+            >
+              Panorama
+            </button>
+            <button
+              onClick={() => setShowPeerSettings(true)}
+              className="bg-gray-700 hover:bg-gray-600 text-white text-sm font-bold py-1.5 px-4 rounded-lg transition-colors"
+              title="Signaling server and STUN/TURN servers"
+            >
+              Connection
+            </button>
+          </div>
+          <RecordingControls slots={streamingSlots} />
+          <ReplayControls />
+          <SyncStatus />
+          <BridgeSettings />
+          <OpenCVDiagnostics />
         </div>
+        {devicesError && usesLocalCameras && (
+          <p className="w-full px-4 md:px-0 mb-4 text-sm text-red-400">{devicesError}</p>
+        )}
+        {replaying ? (
+          <div className={`grid ${gridColumns(replay.slots.length)} gap-6 w-full px-4 md:px-0`}>
+            {replay.slots.map(slot => (
+              <div key={slot.slotId} className="flex flex-col gap-2">
+                <RecordedSlot slot={slot} />
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className={`grid ${gridColumns(slots.length)} gap-6 w-full px-4 md:px-0`}>
+            {slots.map((slot, index) => {
+              const { source } = slot;
+              return (
+                <div key={slot.id} className="flex flex-col gap-2">
+                  <SlotControls
+                    slot={slot}
+                    onRename={(label) => updateSlot(slot.id, { label })}
+                    onSourceChange={(next) => changeSource(slot.id, next)}
+                    onMoveBack={index > 0 ? () => moveSlot(slot.id, -1) : undefined}
+                    onMoveForward={index < slots.length - 1 ? () => moveSlot(slot.id, 1) : undefined}
+                    onRemove={slots.length > 1 ? () => deleteSlot(slot.id) : undefined}
+                    devices={devices}
+                    devicesReady={devicesReady}
+                    takenDeviceIds={localDeviceIds.filter((id, i): id is string => !!id && i !== index)}
+                  />
+                  {source.kind === 'local' ? (
+                    <LocalCameraSlot
+                      label={slot.label}
+                      slotId={slot.id}
+                      deviceId={source.deviceId}
+                      available={devices.some(device => device.deviceId === source.deviceId)}
+                      onStreamChange={setFeed(slot.id)}
+                    />
+                  ) : source.kind === 'test' ? (
+                    <TestSourceSlot label={slot.label} slotId={slot.id} source={source.source} onStreamChange={setFeed(slot.id)} />
+                  ) : (
+                    <ConnectionManager label={slot.label} slotId={slot.id} onStreamChange={setFeed(slot.id)} />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+        {showStereo && streamingSlots.length >= 2 && (
+          <StereoCalibrationPanel slots={streamingSlots} onClose={() => setShowStereo(false)} />
+        )}
+        {showPanorama && streamingSlots.length >= 2 && (
+          <PanoramaPanel slots={streamingSlots} onClose={() => setShowPanorama(false)} />
+        )}
+        {showPeerSettings && <PeerSettingsPanel onClose={() => setShowPeerSettings(false)} />}
      </div>
   );
 };
 
+
 // --- Landing Page Component ---
 const LandingPage: React.FC<{ onSelectRole: (role: 'console' | 'caster') => void }> = ({ onSelectRole }) => {
     return (
@@ -342,16 +1084,29 @@ const LandingPage: React.FC<{ onSelectRole: (role: 'console' | 'caster') => void
 
 // --- Main App Component (Router) ---
 const App: React.FC = () => {
-  const urlParams = useMemo(() => new URLSearchParams(window.location.search), []);
+  const urlParams = useMemo(() => {
+    const params = new URLSearchParams(window.location.search);
+    // Pairing links carry the console's signaling settings; they must apply before any Peer exists
+    applySharedPeerSettings(params.get(PEER_SETTINGS_PARAM));
+    return params;
+  }, []);
   const isCasterFromUrl = urlParams.get('caster') === 'true';
   const consoleIdFromUrl = urlParams.get('consoleId');
 
-  const initialMode = isCasterFromUrl ? 'caster' : 'landing';
+  // `?console=true` skips the landing page, e.g. for automated runs
+  const initialMode = isCasterFromUrl ? 'caster' : urlParams.get('console') === 'true' ? 'console' : 'landing';
   const [mode, setMode] = useState<'landing' | 'console' | 'caster'>(initialMode);
 
   const renderContent = () => {
     if (mode === 'caster') {
-      return <CasterView initialConsoleId={consoleIdFromUrl} />;
+      return (
+        <CasterView
+          initialConsoleId={consoleIdFromUrl}
+          initialSecret={urlParams.get(PAIRING_SECRET_PARAM)}
+          initialSlotId={urlParams.get(SLOT_PARAM)}
+          initialTestSource={parseTestSource(urlParams)}
+        />
+      );
     }
     if (mode === 'console') {
       return <ConsoleView />;
@@ -0,0 +1,112 @@
+import React, { useRef, useEffect } from 'react';
+import { frameBridge } from '../lib/frameBridge';
+import { coverTransform } from '../lib/videoGeometry';
+import type { Annotation, AnnotationsMessage } from '../lib/frameProtocol';
+
+const DEFAULT_TTL_MS = 1000;
+const DEFAULT_COLOR = '#34d399';
+
+interface ActiveLayer {
+  message: AnnotationsMessage;
+  expiresAt: number;
+}
+
+const drawAnnotation = (ctx: CanvasRenderingContext2D, item: Annotation, map: (x: number, y: number) => [number, number]) => {
+  const color = item.color || DEFAULT_COLOR;
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+
+  const tracePath = (points: [number, number][], closed: boolean) => {
+    if (points.length === 0) return;
+    ctx.beginPath();
+    points.forEach(([x, y], i) => {
+      const [px, py] = map(x, y);
+      if (i === 0) ctx.moveTo(px, py);
+      else ctx.lineTo(px, py);
+    });
+    if (closed) ctx.closePath();
+    ctx.stroke();
+  };
+
+  const label = (text: string, x: number, y: number) => {
+    const [px, py] = map(x, y);
+    ctx.fillText(text, px, py - 4);
+  };
+
+  switch (item.kind) {
+    case 'box':
+      tracePath([[item.x, item.y], [item.x + item.width, item.y], [item.x + item.width, item.y + item.height], [item.x, item.y + item.height]], true);
+      if (item.label) label(item.label, item.x, item.y);
+      break;
+    case 'marker':
+      tracePath(item.corners, true);
+      if (item.corners.length > 0) label(`#${item.id}`, item.corners[0][0], item.corners[0][1]);
+      break;
+    case 'polyline':
+      tracePath(item.points, !!item.closed);
+      break;
+    case 'text':
+      label(item.text, item.x, item.y);
+      break;
+  }
+};
+
+// Draws annotations from the analysis backend on top of a slot's video. Coordinates arrive in
+// frame pixels and are mapped through the same cover crop the <video> element applies.
+const AnnotationOverlay: React.FC<{ slotId: string }> = ({ slotId }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d')!;
+    const layers = new Map<string, ActiveLayer>();
+    let animationId: number | null = null;
+
+    const draw = () => {
+      animationId = null;
+      const now = performance.now();
+      layers.forEach((layer, key) => {
+        if (layer.expiresAt <= now) layers.delete(key);
+      });
+
+      const dpr = window.devicePixelRatio || 1;
+      const width = canvas.clientWidth;
+      const height = canvas.clientHeight;
+      if (canvas.width !== Math.round(width * dpr) || canvas.height !== Math.round(height * dpr)) {
+        canvas.width = Math.round(width * dpr);
+        canvas.height = Math.round(height * dpr);
+      }
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      ctx.clearRect(0, 0, width, height);
+      ctx.lineWidth = 2;
+      ctx.font = 'bold 13px sans-serif';
+
+      layers.forEach(({ message }) => {
+        const { scale, offsetX, offsetY } = coverTransform(message.frameWidth, message.frameHeight, width, height);
+        const map = (x: number, y: number): [number, number] => [x * scale + offsetX, y * scale + offsetY];
+        message.items.forEach(item => drawAnnotation(ctx, item, map));
+      });
+
+      // Keep redrawing while anything is on screen so layout changes and expiry are picked up
+      if (layers.size > 0) animationId = requestAnimationFrame(draw);
+    };
+
+    const unsubscribe = frameBridge.onAnnotations(slotId, message => {
+      layers.set(message.layer || 'default', {
+        message,
+        expiresAt: performance.now() + (message.ttlMs ?? DEFAULT_TTL_MS),
+      });
+      if (animationId === null) animationId = requestAnimationFrame(draw);
+    });
+
+    return () => {
+      unsubscribe();
+      if (animationId !== null) cancelAnimationFrame(animationId);
+    };
+  }, [slotId]);
+
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />;
+};
+
+export default AnnotationOverlay;
@@ -0,0 +1,41 @@
+import React, { useState, useEffect } from 'react';
+import { useBridgeUrl, useBridgeSendMode } from '../hooks/useFrameBridge';
+import type { BridgeSendMode } from '../lib/frameBridge';
+
+const BridgeSettings: React.FC = () => {
+  const [url, setUrl] = useBridgeUrl();
+  const [sendMode, setSendMode] = useBridgeSendMode();
+  const [draft, setDraft] = useState(url);
+
+  useEffect(() => setDraft(url), [url]);
+
+  const apply = () => setUrl(draft);
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center gap-2 text-sm">
+      <label htmlFor="bridge-url" className="font-medium text-gray-400 whitespace-nowrap">Python bridge</label>
+      <input
+        id="bridge-url"
+        type="text"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && apply()}
+        onBlur={apply}
+        placeholder="ws://localhost:8765"
+        spellCheck={false}
+        className="w-full sm:w-72 bg-gray-800 border border-gray-600 text-white font-mono rounded-lg px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-indigo-500 placeholder-gray-500"
+      />
+      <select
+        value={sendMode}
+        onChange={(e) => setSendMode(e.target.value as BridgeSendMode)}
+        title="Send every frame the bridge can take, or only a keyframe when the board content changed"
+        className="bg-gray-800 border border-gray-600 text-white rounded-lg px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+      >
+        <option value="changes">On change</option>
+        <option value="continuous">Every frame</option>
+      </select>
+    </div>
+  );
+};
+
+export default BridgeSettings;
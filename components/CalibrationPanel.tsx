@@ -0,0 +1,243 @@
+import React, { useRef, useEffect, useState } from 'react';
+import { useOpenCV, describeOpenCVState } from '../hooks/useOpenCV';
+import { DEFAULT_CHARUCO_BOARD, CharucoDetection, detectCharuco, drawCharucoBoard, isNovelView } from '../lib/charuco';
+import { calibrateIntrinsics, loadIntrinsics, saveIntrinsics, CameraIdentity, CameraIntrinsics } from '../lib/calibration';
+import { downloadBlob, downloadJson } from '../lib/download';
+
+const DETECT_INTERVAL_MS = 250;
+const MIN_CORNERS_PER_VIEW = 8;
+const MIN_VIEWS = 8;
+const GRID_COLS = 4;
+const GRID_ROWS = 3;
+
+const coveredCells = (views: CharucoDetection[], width: number, height: number) => {
+  const cells = new Set<number>();
+  views.forEach(view => view.imagePoints.forEach(([x, y]) => {
+    const col = Math.min(GRID_COLS - 1, Math.floor(x / width * GRID_COLS));
+    const row = Math.min(GRID_ROWS - 1, Math.floor(y / height * GRID_ROWS));
+    cells.add(row * GRID_COLS + col);
+  }));
+  return cells;
+};
+
+const PrintableBoard: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    if (canvasRef.current) drawCharucoBoard(window.cv, canvasRef.current, DEFAULT_CHARUCO_BOARD);
+  }, []);
+
+  const download = () => canvasRef.current?.toBlob(blob => blob && downloadBlob(blob, 'charuco-board.png'), 'image/png');
+
+  const print = () => {
+    const dataUrl = canvasRef.current?.toDataURL('image/png');
+    const win = window.open('', '_blank');
+    if (!dataUrl || !win) return;
+    win.document.write(`<img src="${dataUrl}" style="width:100%" onload="window.print()">`);
+    win.document.close();
+  };
+
+  const { squaresX, squaresY, squareLength, markerLength, dictionary } = DEFAULT_CHARUCO_BOARD;
+  return (
+    <div className="space-y-3">
+      <canvas ref={canvasRef} className="w-full bg-white rounded" />
+      <p className="text-xs text-gray-400">
+        {squaresX}×{squaresY} squares, {dictionary}. Print without scaling so squares are {squareLength * 1000} mm and markers {markerLength * 1000} mm, then tape it to something flat.
+      </p>
+      <div className="flex gap-2">
+        <button onClick={print} className="bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-bold py-1.5 px-3 rounded-lg">Print</button>
+        <button onClick={download} className="bg-gray-700 hover:bg-gray-600 text-white text-sm py-1.5 px-3 rounded-lg">Download PNG</button>
+        <button onClick={onClose} className="bg-gray-700 hover:bg-gray-600 text-white text-sm py-1.5 px-3 rounded-lg">Back</button>
+      </div>
+    </div>
+  );
+};
+
+// --- Intrinsic calibration wizard for one camera slot ---
+const CalibrationPanel: React.FC<{
+  stream: MediaStream;
+  label: string;
+  camera: CameraIdentity | null;
+  onClose: () => void;
+}> = ({ stream, label, camera, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const viewsRef = useRef<CharucoDetection[]>([]);
+  const opencv = useOpenCV(['imgproc', 'calib3d', 'aruco']);
+  const loadState = opencv.availability;
+  const [showBoard, setShowBoard] = useState(false);
+  const [views, setViews] = useState<CharucoDetection[]>([]);
+  const [liveCorners, setLiveCorners] = useState(0);
+  const [autoCapture, setAutoCapture] = useState(true);
+  const [calibrating, setCalibrating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<CameraIntrinsics | null>(() => camera ? loadIntrinsics(camera) : null);
+  const captureRequested = useRef(false);
+
+  viewsRef.current = views;
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.srcObject = stream;
+    video.play().catch(err => console.error("Video play failed:", err));
+  }, [stream]);
+
+  useEffect(() => {
+    if (loadState !== 'ready') return;
+    const cv = window.cv;
+    let timeoutId: ReturnType<typeof setTimeout>;
+
+    const tick = () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (video && canvas && video.videoWidth > 0) {
+        const width = video.videoWidth;
+        const height = video.videoHeight;
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+        ctx.drawImage(video, 0, 0);
+
+        const src = cv.imread(canvas);
+        let detection: CharucoDetection;
+        try {
+          detection = detectCharuco(cv, src, DEFAULT_CHARUCO_BOARD);
+        } catch (err) {
+          console.error('ChArUco detection failed:', err);
+          detection = { ids: [], imagePoints: [], objectPoints: [], markers: [] };
+        } finally {
+          src.delete();
+        }
+        setLiveCorners(detection.ids.length);
+
+        // Coverage grid, green where earlier views already had corners
+        const covered = coveredCells(viewsRef.current, width, height);
+        ctx.lineWidth = Math.max(1, width / 640);
+        for (let row = 0; row < GRID_ROWS; row++) {
+          for (let col = 0; col < GRID_COLS; col++) {
+            const x = col * width / GRID_COLS;
+            const y = row * height / GRID_ROWS;
+            if (covered.has(row * GRID_COLS + col)) {
+              ctx.fillStyle = 'rgba(52, 211, 153, 0.18)';
+              ctx.fillRect(x, y, width / GRID_COLS, height / GRID_ROWS);
+            }
+            ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
+            ctx.strokeRect(x, y, width / GRID_COLS, height / GRID_ROWS);
+          }
+        }
+        ctx.fillStyle = '#f472b6';
+        const r = Math.max(3, width / 320);
+        detection.imagePoints.forEach(([x, y]) => {
+          ctx.beginPath();
+          ctx.arc(x, y, r, 0, Math.PI * 2);
+          ctx.fill();
+        });
+
+        const usable = detection.ids.length >= MIN_CORNERS_PER_VIEW;
+        const manual = captureRequested.current;
+        captureRequested.current = false;
+        if (usable && (manual || (autoCapture && isNovelView(detection, viewsRef.current, width)))) {
+          setViews(prev => [...prev, detection]);
+        }
+      }
+      timeoutId = setTimeout(tick, DETECT_INTERVAL_MS);
+    };
+    tick();
+
+    return () => clearTimeout(timeoutId);
+  }, [loadState, autoCapture]);
+
+  const runCalibration = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    setCalibrating(true);
+    setError(null);
+    // Let the "Calibrating..." state paint before OpenCV blocks the thread
+    setTimeout(() => {
+      try {
+        const intrinsics = calibrateIntrinsics(window.cv, views, video.videoWidth, video.videoHeight, DEFAULT_CHARUCO_BOARD);
+        setResult(intrinsics);
+        if (camera) saveIntrinsics(camera, intrinsics);
+      } catch (err) {
+        console.error('Calibration failed:', err);
+        setError('Calibration failed. Capture more varied views and try again.');
+      } finally {
+        setCalibrating(false);
+      }
+    }, 50);
+  };
+
+  const exportResult = () => {
+    if (!result) return;
+    const name = camera ? `${camera.casterId}-${camera.cameraLabel}` : label;
+    downloadJson({ camera, ...result }, `intrinsics-${name.replace(/[^a-z0-9-]+/gi, '_')}.json`);
+  };
+
+  const coverage = videoRef.current?.videoWidth
+    ? coveredCells(views, videoRef.current.videoWidth, videoRef.current.videoHeight).size / (GRID_COLS * GRID_ROWS)
+    : 0;
+
+  const message =
+    describeOpenCVState(opencv, 'calibration');
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-4xl max-h-full overflow-y-auto p-6 space-y-4" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold text-white">Calibrate {label}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-2xl leading-none" aria-label="Close">×</button>
+        </div>
+        {!camera && (
+          <p className="text-sm text-yellow-400">This phone did not identify itself, so the result can be exported but not saved for it.</p>
+        )}
+        <video ref={videoRef} className="hidden" muted playsInline />
+
+        {message ? (
+          <p className="text-gray-400">{message}</p>
+        ) : showBoard ? (
+          <PrintableBoard onClose={() => setShowBoard(false)} />
+        ) : (
+          <>
+            <canvas ref={canvasRef} className="w-full rounded bg-black" />
+            <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm text-gray-300">
+              <span>Corners in view: <b className={liveCorners >= MIN_CORNERS_PER_VIEW ? 'text-green-400' : 'text-yellow-400'}>{liveCorners}</b></span>
+              <span>Views: <b>{views.length}</b>/{MIN_VIEWS}</span>
+              <span>Coverage: <b>{Math.round(coverage * 100)}%</b></span>
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={autoCapture} onChange={(e) => setAutoCapture(e.target.checked)} />
+                Auto-capture new angles
+              </label>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <button onClick={() => { captureRequested.current = true; }} className="bg-gray-700 hover:bg-gray-600 text-white text-sm py-1.5 px-3 rounded-lg">Capture view</button>
+              <button onClick={() => setViews([])} disabled={views.length === 0} className="bg-gray-700 hover:bg-gray-600 text-white text-sm py-1.5 px-3 rounded-lg disabled:opacity-50">Clear views</button>
+              <button onClick={() => setShowBoard(true)} className="bg-gray-700 hover:bg-gray-600 text-white text-sm py-1.5 px-3 rounded-lg">Printable board</button>
+              <button
+                onClick={runCalibration}
+                disabled={views.length < MIN_VIEWS || calibrating}
+                className="bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-bold py-1.5 px-3 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {calibrating ? 'Calibrating...' : 'Calibrate'}
+              </button>
+            </div>
+            <p className="text-xs text-gray-500">Move the board around the whole frame and tilt it in different directions. Aim to fill every grid cell.</p>
+          </>
+        )}
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        {result && (
+          <div className="bg-gray-900/60 rounded-lg p-4 text-sm text-gray-300 space-y-1 font-mono">
+            <p>Reprojection error: <b className={result.reprojectionError < 1 ? 'text-green-400' : 'text-yellow-400'}>{result.reprojectionError.toFixed(3)} px</b> ({result.views} views, {result.imageWidth}×{result.imageHeight})</p>
+            <p>fx {result.cameraMatrix[0].toFixed(1)}  fy {result.cameraMatrix[4].toFixed(1)}  cx {result.cameraMatrix[2].toFixed(1)}  cy {result.cameraMatrix[5].toFixed(1)}</p>
+            <p>dist [{result.distCoeffs.map(d => d.toFixed(4)).join(', ')}]</p>
+            <p className="text-xs text-gray-500">Calibrated {new Date(result.calibratedAt).toLocaleString()}</p>
+            <button onClick={exportResult} className="mt-2 font-sans bg-gray-700 hover:bg-gray-600 text-white text-sm py-1.5 px-3 rounded-lg">Export JSON</button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CalibrationPanel;
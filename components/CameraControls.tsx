@@ -0,0 +1,124 @@
+import React from 'react';
+import { CameraCommand, CameraState, RangeCapability, AdjustableSetting, RESOLUTION_PRESETS, FRAME_RATE_PRESETS } from '../lib/cameraControl';
+
+interface CameraControlsProps {
+  state: CameraState | null;
+  error: string | null;
+  onCommand: (command: CameraCommand) => void;
+}
+
+const buttonClass = 'bg-gray-700 hover:bg-gray-600 text-white text-sm py-1 px-3 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed';
+const selectClass = 'bg-gray-700 border border-gray-600 text-white text-sm rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+const RangeControl: React.FC<{
+  label: string;
+  range: RangeCapability;
+  value: number | undefined;
+  onChange: (value: number) => void;
+}> = ({ label, range, value, onChange }) => (
+  <label className="flex items-center gap-3 text-sm text-gray-300">
+    <span className="w-24 shrink-0">{label}</span>
+    <input
+      type="range"
+      min={range.min}
+      max={range.max}
+      step={range.step || (range.max - range.min) / 100}
+      defaultValue={value ?? range.min}
+      // Only the released value is sent, so dragging does not flood the phone with constraints
+      onPointerUp={(e) => onChange(Number(e.currentTarget.value))}
+      onKeyUp={(e) => onChange(Number(e.currentTarget.value))}
+      className="flex-grow accent-indigo-500"
+    />
+    <span className="w-14 text-right font-mono text-xs text-gray-400">{value === undefined ? '—' : Number(value.toFixed(2))}</span>
+  </label>
+);
+
+const ModeControl: React.FC<{
+  label: string;
+  modes: string[];
+  value: string | undefined;
+  onChange: (value: string) => void;
+}> = ({ label, modes, value, onChange }) => (
+  <label className="flex items-center gap-3 text-sm text-gray-300">
+    <span className="w-24 shrink-0">{label}</span>
+    <select value={value ?? ''} onChange={(e) => onChange(e.target.value)} className={selectClass}>
+      {value === undefined && <option value="" disabled>—</option>}
+      {modes.map(mode => <option key={mode} value={mode}>{mode}</option>)}
+    </select>
+  </label>
+);
+
+// --- Remote controls for a phone camera, limited to what the phone reports it supports ---
+const CameraControls: React.FC<CameraControlsProps> = ({ state, error, onCommand }) => {
+  if (!state) {
+    return <p className="text-sm text-gray-400 p-3">Waiting for the phone to report its camera...</p>;
+  }
+
+  const { capabilities: caps, settings } = state;
+  const set = (setting: AdjustableSetting, value: number | string | boolean) => onCommand({ action: 'set', setting, value });
+
+  const resolutions = RESOLUTION_PRESETS.filter(preset =>
+    !caps.width || !caps.height || (preset.width <= caps.width.max && preset.height <= caps.height.max));
+  const frameRates = FRAME_RATE_PRESETS.filter(rate => !caps.frameRate || rate <= caps.frameRate.max);
+  const currentResolution = resolutions.find(preset =>
+    Math.max(preset.width, preset.height) === Math.max(settings.width ?? 0, settings.height ?? 0));
+  const currentFrameRate = Math.round(settings.frameRate ?? 30);
+
+  const setFormat = (width: number, height: number, frameRate: number) => onCommand({ action: 'set-format', width, height, frameRate });
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-3 space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-300">
+        <span className="font-mono text-xs text-gray-400 mr-auto">
+          {settings.cameraLabel || settings.facingMode} · {settings.width}×{settings.height} · {Math.round(settings.frameRate ?? 0)} fps
+        </span>
+        <button onClick={() => onCommand({ action: 'switch-camera' })} className={buttonClass}>
+          Switch to {settings.facingMode === 'environment' ? 'front' : 'back'} camera
+        </button>
+        {caps.torch && (
+          <button onClick={() => set('torch', !settings.torch)} className={`${buttonClass} ${settings.torch ? 'bg-yellow-600 hover:bg-yellow-500' : ''}`}>
+            Torch {settings.torch ? 'on' : 'off'}
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        <select
+          value={currentResolution?.label ?? ''}
+          onChange={(e) => {
+            const preset = resolutions.find(p => p.label === e.target.value);
+            if (preset) setFormat(preset.width, preset.height, currentFrameRate);
+          }}
+          className={selectClass}
+          aria-label="Resolution"
+        >
+          {!currentResolution && <option value="" disabled>{settings.width}×{settings.height}</option>}
+          {resolutions.map(preset => <option key={preset.label} value={preset.label}>{preset.label}</option>)}
+        </select>
+        <select
+          value={frameRates.includes(currentFrameRate) ? currentFrameRate : ''}
+          onChange={(e) => setFormat(settings.width ?? 1280, settings.height ?? 720, Number(e.target.value))}
+          className={selectClass}
+          aria-label="Frame rate"
+        >
+          {!frameRates.includes(currentFrameRate) && <option value="" disabled>{currentFrameRate} fps</option>}
+          {frameRates.map(rate => <option key={rate} value={rate}>{rate} fps</option>)}
+        </select>
+      </div>
+
+      {/* Keyed by the reported value so sliders follow what the phone actually applied */}
+      {caps.zoom && <RangeControl key={`zoom-${settings.zoom}`} label="Zoom" range={caps.zoom} value={settings.zoom} onChange={(v) => set('zoom', v)} />}
+      {caps.focusMode && <ModeControl label="Focus mode" modes={caps.focusMode} value={settings.focusMode} onChange={(v) => set('focusMode', v)} />}
+      {caps.focusDistance && <RangeControl key={`focus-${settings.focusDistance}`} label="Focus distance" range={caps.focusDistance} value={settings.focusDistance} onChange={(v) => set('focusDistance', v)} />}
+      {caps.exposureMode && <ModeControl label="Exposure mode" modes={caps.exposureMode} value={settings.exposureMode} onChange={(v) => set('exposureMode', v)} />}
+      {caps.exposureCompensation && <RangeControl key={`exposure-${settings.exposureCompensation}`} label="Exposure" range={caps.exposureCompensation} value={settings.exposureCompensation} onChange={(v) => set('exposureCompensation', v)} />}
+      {!caps.zoom && !caps.focusMode && !caps.focusDistance && !caps.exposureMode && !caps.exposureCompensation && !caps.torch && (
+        <p className="text-xs text-gray-500">This phone's browser reports no zoom, focus, exposure or torch controls.</p>
+      )}
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default CameraControls;
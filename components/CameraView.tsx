@@ -34,17 +34,50 @@ const StreamDisplay: React.FC<StreamDisplayProps> = ({ stream, label, children }
 export default StreamDisplay;
 */
 
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useState } from 'react';
+import { useBridgeStatus, useFrameForwarder } from '../hooks/useFrameBridge';
+import { useFrameSyncSource } from '../hooks/useFrameSync';
+import { useKeyframeSource } from '../hooks/useKeyframes';
+import { useConnectionStats } from '../hooks/useConnectionStats';
+import AnnotationOverlay from './AnnotationOverlay';
+import ConnectionStatsOverlay from './ConnectionStatsOverlay';
+import RectifiedBoardView, { BoardViewMode } from './RectifiedBoardView';
+import TranscriptionPanel from './TranscriptionPanel';
+import type { BridgeSlotStatus } from '../lib/frameBridge';
 
 interface StreamDisplayProps {
   stream: MediaStream | null;
   label: string;
+  slotId: string;
+  // Extra header buttons shown while streaming
+  actions?: React.ReactNode;
   children?: React.ReactNode;
 }
 
-const StreamDisplay: React.FC<StreamDisplayProps> = ({ stream, label, children }) => {
+const BRIDGE_BADGES: Record<BridgeSlotStatus, { text: string; dot: string }> = {
+  connected: { text: 'Bridge connected', dot: 'bg-green-400' },
+  lagging: { text: 'Bridge lagging', dot: 'bg-yellow-400' },
+  offline: { text: 'Bridge offline', dot: 'bg-gray-500' },
+};
+
+const BridgeIndicator: React.FC<{ slotId: string }> = ({ slotId }) => {
+  const status = useBridgeStatus(slotId);
+  const badge = BRIDGE_BADGES[status];
+  return (
+    <span className="absolute right-3 top-1/2 -translate-y-1/2 flex items-center gap-1.5 text-xs font-normal text-gray-300" title={badge.text}>
+      <span className={`w-2 h-2 rounded-full ${badge.dot}`} />
+      <span className="hidden sm:inline">{badge.text}</span>
+    </span>
+  );
+};
+
+const StreamDisplay: React.FC<StreamDisplayProps> = ({ stream, label, slotId, actions, children }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
-  const wsRef = useRef<WebSocket | null>(null);
+  // Pane shown next to the video: a board view or the transcriptions
+  const [sidePanel, setSidePanel] = useState<BoardViewMode | 'transcript' | null>(null);
+  // Only phone slots have WebRTC stats
+  const stats = useConnectionStats(slotId);
+  const [showStats, setShowStats] = useState(false);
 
   // Setup video stream
   useEffect(() => {
@@ -56,49 +89,69 @@ const StreamDisplay: React.FC<StreamDisplayProps> = ({ stream, label, children }
     }
   }, [stream]);
 
-  // Setup WebSocket and frame streaming
-  useEffect(() => {
-    // Connect to Python
-    const ws = new WebSocket('ws://localhost:8765');
-    wsRef.current = ws;
-    ws.onopen = () => console.log('✅ Connected to Python');
-    ws.onerror = (e) => console.error('WebSocket error:', e);
-    
-    const video = videoRef.current;
-    if (!video) return;
-    
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d')!;
-    let animationId: number;
-    
-    const sendFrame = () => {
-      if (ws.readyState === WebSocket.OPEN && video.videoWidth > 0) {
-        canvas.width = video.videoWidth;
-        canvas.height = video.videoHeight;
-        ctx.drawImage(video, 0, 0);
-        
-        canvas.toBlob(blob => {
-          blob?.arrayBuffer().then(buffer => ws.send(buffer));
-        }, 'image/jpeg', 0.8);
-      }
-      animationId = requestAnimationFrame(sendFrame);
-    };
-    
-    video.addEventListener('loadedmetadata', sendFrame);
-    
-    return () => {
-      cancelAnimationFrame(animationId);
-      video.removeEventListener('loadedmetadata', sendFrame);
-      ws.close();
-    };
-  }, []);
+  const toggleSidePanel = (panel: BoardViewMode | 'transcript') => setSidePanel(current => current === panel ? null : panel);
+
+  // Timestamp frames for cross-slot pairing, watch the board for changes and forward frames to
+  // the Python backend, only while there is video
+  useFrameSyncSource(videoRef, slotId, !!stream);
+  useKeyframeSource(videoRef, slotId, !!stream);
+  useFrameForwarder(videoRef, slotId, !!stream);
 
   return (
     <div className="bg-gray-800 rounded-lg overflow-hidden shadow-lg w-full aspect-video flex flex-col">
-      <h3 className="bg-gray-700 text-white font-bold text-center py-2 px-4 select-none">{label}</h3>
-      <div className="relative flex-grow w-full bg-black">
-        <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
-        {!stream && children}
+      <div className="relative bg-gray-700">
+        {stream && (
+          <div className="absolute left-3 top-1/2 -translate-y-1/2 flex gap-1.5">
+            <button
+              onClick={() => toggleSidePanel('rectified')}
+              className={`text-xs px-2 py-0.5 rounded transition-colors ${sidePanel === 'rectified' ? 'bg-indigo-600 text-white' : 'bg-gray-600 text-gray-300 hover:bg-gray-500'}`}
+              title="Show the whiteboard flattened using its corner ArUco markers"
+            >
+              Rectify
+            </button>
+            <button
+              onClick={() => toggleSidePanel('clean')}
+              className={`text-xs px-2 py-0.5 rounded transition-colors ${sidePanel === 'clean' ? 'bg-indigo-600 text-white' : 'bg-gray-600 text-gray-300 hover:bg-gray-500'}`}
+              title="Show the board as clean, high-contrast notes without glare and shadows"
+            >
+              Clean
+            </button>
+            <button
+              onClick={() => toggleSidePanel('transcript')}
+              className={`text-xs px-2 py-0.5 rounded transition-colors ${sidePanel === 'transcript' ? 'bg-indigo-600 text-white' : 'bg-gray-600 text-gray-300 hover:bg-gray-500'}`}
+              title="Transcribe the board into text, LaTeX and diagram descriptions"
+            >
+              Text
+            </button>
+            {stats && (
+              <button
+                onClick={() => setShowStats(show => !show)}
+                className={`text-xs px-2 py-0.5 rounded transition-colors ${showStats ? 'bg-indigo-600 text-white' : 'bg-gray-600 text-gray-300 hover:bg-gray-500'}`}
+                title="Show resolution, frame rate, bitrate, loss, jitter, RTT and the network path of the call"
+              >
+                Stats
+              </button>
+            )}
+            {actions}
+          </div>
+        )}
+        <h3 className="text-white font-bold text-center py-2 px-4 select-none">{label}</h3>
+        {stream && <BridgeIndicator slotId={slotId} />}
+      </div>
+      <div className="flex flex-grow w-full min-h-0">
+        <div className="relative flex-1 min-w-0 bg-black">
+          <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
+          {stream && <AnnotationOverlay slotId={slotId} />}
+          {stream && stats && showStats && <ConnectionStatsOverlay stats={stats} />}
+          {!stream && children}
+        </div>
+        {stream && sidePanel && (
+          <div className="flex-1 min-w-0 border-l border-gray-700">
+            {sidePanel === 'transcript'
+              ? <TranscriptionPanel videoRef={videoRef} slotId={slotId} label={label} />
+              : <RectifiedBoardView videoRef={videoRef} slotId={slotId} mode={sidePanel} />}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,39 @@
+import React from 'react';
+import type { ConnectionStats } from '../lib/connectionStats';
+
+const fixed = (value: number | null, digits: number, unit: string) => value === null ? '—' : `${value.toFixed(digits)} ${unit}`;
+
+// Relayed calls go through the TURN server, which adds latency and caps bandwidth
+const describePath = ({ localCandidateType, remoteCandidateType, protocol }: ConnectionStats) => {
+  if (!localCandidateType || !remoteCandidateType) return '—';
+  const relayed = localCandidateType === 'relay' || remoteCandidateType === 'relay';
+  return `${relayed ? 'relay' : 'direct'} (${localCandidateType}/${remoteCandidateType}${protocol ? `, ${protocol}` : ''})`;
+};
+
+// --- Live WebRTC numbers for a phone slot, drawn over its video ---
+const ConnectionStatsOverlay: React.FC<{ stats: ConnectionStats }> = ({ stats }) => {
+  const rows: [string, string][] = [
+    ['Resolution', stats.width && stats.height ? `${stats.width}×${stats.height}` : '—'],
+    ['Frame rate', fixed(stats.fps, 0, 'fps')],
+    ['Bitrate', fixed(stats.bitrateKbps, 0, 'kbps')],
+    ['Packet loss', `${fixed(stats.packetLossPercent, 1, '%')} (${stats.packetsLost} total)`],
+    ['Jitter', fixed(stats.jitterMs, 0, 'ms')],
+    ['RTT', fixed(stats.rttMs, 0, 'ms')],
+    ['Codec', stats.codec ?? '—'],
+    ['Path', describePath(stats)],
+  ];
+  const lossy = (stats.packetLossPercent ?? 0) >= 5;
+
+  return (
+    <div className="absolute top-2 left-2 bg-black/70 rounded px-2 py-1 text-xs font-mono text-gray-200 pointer-events-none">
+      {rows.map(([name, value]) => (
+        <div key={name} className="flex gap-3 justify-between">
+          <span className="text-gray-400">{name}</span>
+          <span className={name === 'Packet loss' && lossy ? 'text-red-400' : undefined}>{value}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ConnectionStatsOverlay;
@@ -7,10 +7,11 @@ interface DeviceSelectorProps {
   onChange: (deviceId: string) => void;
   disabled: boolean;
   label: string;
-  otherSelectedDeviceId?: string | null;
+  // Devices already used elsewhere; shown but not selectable
+  takenDeviceIds?: string[];
 }
 
-const DeviceSelector: React.FC<DeviceSelectorProps> = ({ devices, selectedDeviceId, onChange, disabled, label, otherSelectedDeviceId }) => {
+const DeviceSelector: React.FC<DeviceSelectorProps> = ({ devices, selectedDeviceId, onChange, disabled, label, takenDeviceIds = [] }) => {
   return (
     <div className="flex flex-col space-y-2">
       <label htmlFor={label} className="text-sm font-medium text-gray-400">{label}</label>
@@ -23,7 +24,7 @@ const DeviceSelector: React.FC<DeviceSelectorProps> = ({ devices, selectedDevice
       >
         <option value="" disabled>Select a camera</option>
         {devices.map((device, index) => (
-          <option key={device.deviceId} value={device.deviceId} disabled={device.deviceId === otherSelectedDeviceId}>
+          <option key={device.deviceId} value={device.deviceId} disabled={takenDeviceIds.includes(device.deviceId)}>
             {device.label || `Camera ${index + 1}`}
           </option>
         ))}
@@ -0,0 +1,87 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useKeyframes } from '../hooks/useKeyframes';
+import { keyframeTimeline, Keyframe } from '../lib/keyframes';
+import { downloadBlob } from '../lib/download';
+
+const formatTime = (epochMs: number) =>
+  new Date(epochMs).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const describeChange = (keyframe: Keyframe) =>
+  keyframe.initial ? 'Start' : `${(keyframe.change.fraction * 100).toFixed(1)}% changed`;
+
+// --- Board keyframes of one slot, newest on the right ---
+const KeyframeTimeline: React.FC<{ slotId: string; label: string }> = ({ slotId, label }) => {
+  const keyframes = useKeyframes(slotId);
+  const [openId, setOpenId] = useState<number | null>(null);
+  const stripRef = useRef<HTMLDivElement>(null);
+  const open = keyframes.find(keyframe => keyframe.id === openId) ?? null;
+
+  // Follow new keyframes as they arrive
+  useEffect(() => {
+    const strip = stripRef.current;
+    if (strip) strip.scrollLeft = strip.scrollWidth;
+  }, [keyframes.length]);
+
+  if (keyframes.length === 0) {
+    return <p className="text-xs text-gray-500 px-1">No board changes yet.</p>;
+  }
+
+  const download = (keyframe: Keyframe) =>
+    downloadBlob(keyframe.image, `${label.replace(/[^a-z0-9]+/gi, '-')}_${keyframe.capturedAt}.jpg`);
+
+  return (
+    <div className="flex items-start gap-2">
+      <div ref={stripRef} className="flex-1 flex gap-2 overflow-x-auto pb-1">
+        {keyframes.map(keyframe => (
+          <button
+            key={keyframe.id}
+            onClick={() => setOpenId(keyframe.id)}
+            className="flex-shrink-0 w-32 rounded overflow-hidden bg-gray-800 border border-gray-700 hover:border-indigo-500 text-left"
+          >
+            <img src={keyframe.thumbnailUrl} alt="" className="w-full aspect-video object-cover" />
+            <div className="px-1.5 py-0.5 text-[10px] leading-tight">
+              <div className="text-gray-300 font-mono">{formatTime(keyframe.capturedAt)}</div>
+              <div className="text-gray-500">{describeChange(keyframe)}</div>
+            </div>
+          </button>
+        ))}
+      </div>
+      <button
+        onClick={() => keyframeTimeline.clear(slotId)}
+        className="text-xs px-2 py-0.5 rounded bg-gray-600 text-gray-300 hover:bg-gray-500"
+      >
+        Clear
+      </button>
+
+      {open && (
+        <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={() => setOpenId(null)}>
+          <div className="bg-gray-800 rounded-lg shadow-2xl max-w-5xl w-full p-4 space-y-3" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between gap-4">
+              <h3 className="text-white font-bold">{label} · {formatTime(open.capturedAt)} · {describeChange(open)}</h3>
+              <div className="flex gap-2">
+                <button onClick={() => download(open)} className="text-sm px-3 py-1 rounded bg-indigo-600 hover:bg-indigo-700 text-white">Download</button>
+                <button onClick={() => setOpenId(null)} className="text-sm px-3 py-1 rounded bg-gray-600 hover:bg-gray-500 text-white">Close</button>
+              </div>
+            </div>
+            <div className="relative">
+              <img src={open.imageUrl} alt={`${label} keyframe`} className="w-full rounded" />
+              {!open.initial && (
+                <div
+                  className="absolute border-2 border-rose-500 rounded-sm pointer-events-none"
+                  style={{
+                    left: `${open.change.bbox[0] * 100}%`,
+                    top: `${open.change.bbox[1] * 100}%`,
+                    width: `${open.change.bbox[2] * 100}%`,
+                    height: `${open.change.bbox[3] * 100}%`,
+                  }}
+                />
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default KeyframeTimeline;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { useOpenCVStatus, useWorkerOpenCVStatus, describeOpenCVSource } from '../hooks/useOpenCV';
+import { OPENCV_MODULES, OpenCVStatus } from '../lib/opencvLoader';
+
+const STATE_DOTS = {
+  loading: 'bg-yellow-400',
+  ready: 'bg-green-400',
+  failed: 'bg-red-500',
+};
+
+const OpenCVStatusDetails: React.FC<{ label: string; status: OpenCVStatus }> = ({ label, status }) => {
+  if (status.state === 'idle') return null;
+
+  const summary =
+    status.state === 'loading' ? `OpenCV (${label}) loading from ${describeOpenCVSource(status.url ?? '')}` :
+    status.state === 'failed' ? `OpenCV (${label}) unavailable` :
+    `OpenCV ${status.version ?? ''} (${label}) from ${describeOpenCVSource(status.url!)}`;
+
+  return (
+    <details className="text-sm text-gray-400">
+      <summary className="cursor-pointer select-none flex items-center gap-1.5">
+        <span className={`w-2 h-2 rounded-full ${STATE_DOTS[status.state]}`} />
+        {summary}
+      </summary>
+      <div className="mt-1 pl-3.5 space-y-1 text-xs">
+        {status.state === 'ready' && <div className="font-mono break-all text-gray-500">{status.url}</div>}
+        {status.modules && (
+          <div className="flex flex-wrap gap-x-3">
+            {OPENCV_MODULES.map(module => (
+              <span key={module} className={status.modules![module] ? 'text-green-400' : 'text-red-400'}>
+                {status.modules![module] ? '✓' : '✗'} {module}
+              </span>
+            ))}
+          </div>
+        )}
+        {status.failures.map(({ url, error }) => (
+          <div key={url} className="text-gray-500 break-all"><span className="font-mono">{url}</span>: {error}</div>
+        ))}
+      </div>
+    </details>
+  );
+};
+
+// Which OpenCV.js builds loaded, from where and with which modules: the vision worker's for the
+// board views, the page's for calibration. Each is hidden until a feature first asks for it.
+const OpenCVDiagnostics: React.FC = () => {
+  const workerStatus = useWorkerOpenCVStatus();
+  const pageStatus = useOpenCVStatus();
+  return (
+    <>
+      <OpenCVStatusDetails label="worker" status={workerStatus} />
+      <OpenCVStatusDetails label="page" status={pageStatus} />
+    </>
+  );
+};
+
+export default OpenCVDiagnostics;
@@ -0,0 +1,183 @@
+import React, { useRef, useEffect, useState } from 'react';
+import { useWorkerOpenCV, describeOpenCVState } from '../hooks/useOpenCV';
+import { frameSync, SyncedFrame } from '../lib/frameSync';
+import { frameBridge } from '../lib/frameBridge';
+import { visionPipeline } from '../lib/visionPipeline';
+import { downloadBlob } from '../lib/download';
+import { PANORAMA_SLOT_ID, StitchResult } from '../lib/panoramaStitcher';
+
+const JPEG_QUALITY = 0.85;
+// Stitching two frames is heavy; the worker would skip more than this anyway
+const STITCH_INTERVAL_MS = 200;
+
+export interface PanoramaSlot {
+  slotId: string;
+  label: string;
+}
+
+// Frame set bitmaps are closed once the listener returns, so the worker gets its own copy
+const copyFrame = ({ bitmap, width, height }: SyncedFrame) => {
+  const canvas = new OffscreenCanvas(width, height);
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0);
+  return canvas.transferToImageBitmap();
+};
+
+const describeResult = ({ state, method, matches, boardSpace }: StitchResult) => {
+  if (state === 'searching') return 'Looking for ArUco markers both cameras see, or for matching features...';
+  const registration = method === 'markers' ? `${matches} shared marker${matches === 1 ? '' : 's'}` : `${matches} feature matches`;
+  const space = boardSpace ? 'board space' : 'left camera view (corner markers 0–3 not all found)';
+  return `${state === 'holding' ? 'Holding last registration' : `Registered by ${registration}`} · ${space}`;
+};
+
+const SideSelect: React.FC<{ slots: PanoramaSlot[]; value: PanoramaSlot; exclude: PanoramaSlot; onChange: (slotId: string) => void }> = ({ slots, value, exclude, onChange }) => (
+  <select
+    value={value.slotId}
+    onChange={(e) => onChange(e.target.value)}
+    className="bg-gray-700 border border-gray-600 text-white text-base rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+  >
+    {slots.map(slot => (
+      <option key={slot.slotId} value={slot.slotId} disabled={slot.slotId === exclude.slotId}>{slot.label}</option>
+    ))}
+  </select>
+);
+
+// --- Two cameras stitched into one wide board, live, as PNG and as a bridge stream ---
+const PanoramaPanel: React.FC<{ slots: PanoramaSlot[]; onClose: () => void }> = ({ slots, onClose }) => {
+  const [pairIds, setPairIds] = useState<[string, string]>([slots[0].slotId, slots[1].slotId]);
+  // Fall back to other slots if a chosen one stops streaming while the panel is open
+  const left = slots.find(slot => slot.slotId === pairIds[0]) || slots[0];
+  const right = slots.find(slot => slot.slotId === pairIds[1] && slot !== left) || slots.find(slot => slot !== left)!;
+  const pairId = `${left.slotId}+${right.slotId}`;
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const opencv = useWorkerOpenCV(['imgproc', 'calib3d']);
+  const usable = opencv.availability === 'ready';
+  const [result, setResult] = useState<StitchResult | null>(null);
+  const [size, setSize] = useState<[number, number] | null>(null);
+  const [sendToBridge, setSendToBridge] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setResult(null);
+    setSize(null);
+    setError(null);
+  }, [pairId]);
+
+  // The backend sees the panorama as one more slot
+  useEffect(() => {
+    if (!sendToBridge) return;
+    const detach = frameBridge.attach(PANORAMA_SLOT_ID);
+    const undescribe = frameBridge.describeSlot({ slotId: PANORAMA_SLOT_ID, label: `Panorama (${left.label} + ${right.label})`, peerId: null });
+    return () => {
+      undescribe();
+      detach();
+    };
+  }, [sendToBridge, left.label, right.label]);
+
+  useEffect(() => {
+    if (!usable) return;
+    let cancelled = false;
+    let inFlight = false;
+    let lastStartedAt = 0;
+
+    // Time-matched frame sets only, so a moving pen is not torn at the seam
+    const unsubscribe = frameSync.onFrameSet(set => {
+      const now = performance.now();
+      if (inFlight || now - lastStartedAt < STITCH_INTERVAL_MS) return;
+      const frames = [left.slotId, right.slotId].map(slotId => set.frames.find(frame => frame.slotId === slotId));
+      if (!frames[0] || !frames[1]) return;
+      const send = sendToBridge && frameBridge.shouldSend(PANORAMA_SLOT_ID);
+      const capturedAt = performance.timeOrigin + Math.max(frames[0].timestamp, frames[1].timestamp);
+      inFlight = true;
+      lastStartedAt = now;
+
+      visionPipeline.stitch(pairId, copyFrame(frames[0]), copyFrame(frames[1]), send ? JPEG_QUALITY : null)
+        .then(stitched => {
+          if (send) {
+            const jpeg = !cancelled && stitched?.jpeg;
+            frameBridge.send(PANORAMA_SLOT_ID, jpeg ? { jpeg, width: stitched!.width, height: stitched!.height, capturedAt } : null);
+          }
+          if (stitched && !cancelled) {
+            const { image, jpeg, width, height, ...info } = stitched;
+            setResult(info);
+            setError(null);
+            const canvas = canvasRef.current;
+            if (image && canvas) {
+              canvas.width = width;
+              canvas.height = height;
+              canvas.getContext('2d')!.drawImage(image, 0, 0);
+              setSize([width, height]);
+            }
+          }
+          stitched?.image?.close();
+        })
+        .catch(err => {
+          if (send) frameBridge.send(PANORAMA_SLOT_ID, null);
+          console.error('Stitching failed:', err);
+          if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+        })
+        .finally(() => { inFlight = false; });
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [usable, pairId, sendToBridge]);
+
+  // The registration belongs to this pair of cameras
+  useEffect(() => () => visionPipeline.release(pairId, 'stitch'), [pairId]);
+
+  const savePng = () => {
+    canvasRef.current?.toBlob(blob => blob && downloadBlob(blob, `panorama-${Date.now()}.png`), 'image/png');
+  };
+
+  const message = describeOpenCVState(opencv, 'the panorama');
+  const stitched = !!result && result.state !== 'searching';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-7xl max-h-full overflow-y-auto p-6 space-y-4" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h2 className="flex flex-wrap items-center gap-2 text-xl font-bold text-white">
+            Panorama:
+            <SideSelect slots={slots} value={left} exclude={right} onChange={(slotId) => setPairIds([slotId, right.slotId])} />
+            +
+            <SideSelect slots={slots} value={right} exclude={left} onChange={(slotId) => setPairIds([left.slotId, slotId])} />
+            <button onClick={() => setPairIds([right.slotId, left.slotId])} className="text-sm font-normal text-gray-400 hover:text-white underline">Swap sides</button>
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-2xl leading-none" aria-label="Close">×</button>
+        </div>
+
+        {message ? (
+          <p className="text-gray-400">{message}</p>
+        ) : (
+          <>
+            <div className="relative w-full bg-gray-900 rounded">
+              <canvas ref={canvasRef} className={`w-full max-h-[65vh] object-contain ${stitched ? '' : 'hidden'}`} />
+              {!stitched && <div className="aspect-[3/1] flex items-center justify-center p-4 text-center text-sm text-gray-400">{result ? describeResult(result) : 'Waiting for time-matched frames from both cameras...'}</div>}
+            </div>
+            <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm text-gray-300">
+              {stitched && <span className={result!.state === 'tracking' ? 'text-green-400' : 'text-yellow-400'}>{describeResult(result!)}</span>}
+              {stitched && size && <span className="font-mono">{size[0]}×{size[1]}</span>}
+              <label className="flex items-center gap-2" title={`Sent as slot "${PANORAMA_SLOT_ID}"`}>
+                <input type="checkbox" checked={sendToBridge} onChange={(e) => setSendToBridge(e.target.checked)} />
+                Send to Python bridge
+              </label>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <button onClick={savePng} disabled={!stitched} className="bg-gray-700 hover:bg-gray-600 text-white text-sm py-1.5 px-3 rounded-lg disabled:opacity-50">Save PNG</button>
+            </div>
+            <p className="text-xs text-gray-500">
+              Put the left camera's view first. Stick one or more ArUco markers where both cameras see them, or make sure the overlap has enough writing to match.
+              With corner markers 0–3 on the board, the result is flattened into board space.
+            </p>
+          </>
+        )}
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default PanoramaPanel;
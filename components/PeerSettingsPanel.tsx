@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { ENV_PEER_SETTINGS, PeerSettings, getPeerSettings, savePeerSettings } from '../lib/peerConfig';
+
+const inputClass = 'w-full bg-gray-700 border border-gray-600 text-white font-mono rounded-lg px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-indigo-500 placeholder-gray-500';
+
+const Field: React.FC<{ label: string; hint?: string; children: React.ReactNode }> = ({ label, hint, children }) => (
+  <label className="block space-y-1">
+    <span className="text-sm font-medium text-gray-400">{label}</span>
+    {children}
+    {hint && <span className="block text-xs text-gray-500">{hint}</span>}
+  </label>
+);
+
+// --- Signaling server and ICE settings, shared by the console and casters ---
+const PeerSettingsPanel: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const current = getPeerSettings();
+  const [draft, setDraft] = useState<PeerSettings>(current);
+  const [iceText, setIceText] = useState(() => current.iceServers.length ? JSON.stringify(current.iceServers, null, 2) : '');
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (changes: Partial<PeerSettings>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  // Peers are created once per slot, so new settings take effect on a fresh page
+  const apply = (settings: PeerSettings | null) => {
+    savePeerSettings(settings);
+    window.location.reload();
+  };
+
+  const save = () => {
+    let iceServers: RTCIceServer[] = [];
+    try {
+      iceServers = iceText.trim() ? JSON.parse(iceText) : [];
+      if (!Array.isArray(iceServers) || !iceServers.every(server => server && server.urls)) throw new Error('not a list of servers');
+    } catch {
+      setError('ICE servers must be a JSON array like [{"urls": "stun:stun.example.org:3478"}].');
+      return;
+    }
+    apply({ ...draft, iceServers });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-lg max-h-full overflow-y-auto p-6 space-y-4" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold text-white">Connection settings</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-2xl leading-none" aria-label="Close">×</button>
+        </div>
+        <p className="text-sm text-gray-400">
+          Leave the server empty to use the public PeerJS cloud. Phones that pair through the QR code or link
+          use the console's settings automatically; phones that type the code need the same settings here.
+        </p>
+
+        <div className="grid grid-cols-3 gap-3">
+          <div className="col-span-2">
+            <Field label="Signaling host">
+              <input value={draft.host} onChange={(e) => update({ host: e.target.value })} placeholder={ENV_PEER_SETTINGS.host || '0.peerjs.com'} spellCheck={false} className={inputClass} />
+            </Field>
+          </div>
+          <Field label="Port">
+            <input type="number" min={1} value={draft.port ?? ''} onChange={(e) => update({ port: Number(e.target.value) || null })} placeholder="443" className={inputClass} />
+          </Field>
+          <div className="col-span-2">
+            <Field label="Path">
+              <input value={draft.path} onChange={(e) => update({ path: e.target.value })} placeholder="/" spellCheck={false} className={inputClass} />
+            </Field>
+          </div>
+          <Field label="Secure (wss)">
+            <select
+              value={draft.secure === null ? '' : String(draft.secure)}
+              onChange={(e) => update({ secure: e.target.value === '' ? null : e.target.value === 'true' })}
+              className={inputClass}
+            >
+              <option value="">Auto</option>
+              <option value="true">Yes</option>
+              <option value="false">No</option>
+            </select>
+          </Field>
+          <div className="col-span-3">
+            <Field label="Key">
+              <input value={draft.key} onChange={(e) => update({ key: e.target.value })} placeholder="peerjs" spellCheck={false} className={inputClass} />
+            </Field>
+          </div>
+          <div className="col-span-3">
+            <Field label="ICE servers (JSON)" hint="STUN/TURN servers for WebRTC. Empty uses PeerJS' defaults.">
+              <textarea
+                value={iceText}
+                onChange={(e) => setIceText(e.target.value)}
+                rows={4}
+                spellCheck={false}
+                placeholder='[{"urls": "turn:turn.example.org:3478", "username": "user", "credential": "secret"}]'
+                className={inputClass}
+              />
+            </Field>
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        <div className="flex flex-wrap gap-2">
+          <button onClick={save} className="bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-bold py-1.5 px-3 rounded-lg">Save and reload</button>
+          <button onClick={() => apply(null)} className="bg-gray-700 hover:bg-gray-600 text-white text-sm py-1.5 px-3 rounded-lg">Reset to defaults</button>
+          <button onClick={onClose} className="bg-gray-700 hover:bg-gray-600 text-white text-sm py-1.5 px-3 rounded-lg">Cancel</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PeerSettingsPanel;
@@ -0,0 +1,23 @@
+import React from 'react';
+import { useConnectionStats } from '../hooks/useConnectionStats';
+import { QUALITY_PROFILES, QualityProfileId } from '../lib/qualityProfiles';
+
+// --- Quality profile a phone streams with, and the resolution that actually arrives ---
+const QualityBadge: React.FC<{ slotId: string; profile: QualityProfileId }> = ({ slotId, profile }) => {
+  const stats = useConnectionStats(slotId);
+  const { label, width, height, description } = QUALITY_PROFILES[profile];
+  const received = stats?.width && stats.height ? `${stats.width}×${stats.height}` : null;
+  // The phone or the network delivering less than the profile asks for
+  const short = !!stats?.width && !!stats.height && stats.width * stats.height < width * height * 0.9;
+
+  return (
+    <span
+      className={`text-xs px-2 py-0.5 rounded bg-gray-800 ${short ? 'text-yellow-400' : 'text-gray-300'}`}
+      title={`${description}${received ? `; receiving ${received}${stats?.fps ? ` at ${stats.fps.toFixed(0)} fps` : ''}` : ''}`}
+    >
+      {label}{received ? ` · ${received}` : ''}
+    </span>
+  );
+};
+
+export default QualityBadge;
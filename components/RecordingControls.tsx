@@ -0,0 +1,102 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { SessionRecorder, RecordableSlot, snapshotSlots } from '../lib/sessionRecorder';
+import { downloadBlob, downloadJson } from '../lib/download';
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// --- Record all streaming slots together, or snapshot them all at once ---
+const RecordingControls: React.FC<{ slots: RecordableSlot[] }> = ({ slots }) => {
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const [recordingSince, setRecordingSince] = useState<number | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (recordingSince === null) return;
+    const intervalId = setInterval(() => setElapsed(Date.now() - recordingSince), 500);
+    return () => clearInterval(intervalId);
+  }, [recordingSince]);
+
+  const startRecording = () => {
+    setError(null);
+    try {
+      const recorder = new SessionRecorder(slots);
+      recorder.start();
+      recorderRef.current = recorder;
+      setElapsed(0);
+      setRecordingSince(Date.now());
+    } catch (err) {
+      console.error('Could not start recording:', err);
+      setError('Recording is not supported in this browser.');
+    }
+  };
+
+  const stopRecording = async () => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    recorderRef.current = null;
+    setRecordingSince(null);
+    setBusy(true);
+    try {
+      const { manifest, files } = await recorder.stop();
+      files.forEach(file => downloadBlob(file.blob, file.name));
+      downloadJson(manifest, `${manifest.sessionId}_manifest.json`);
+    } catch (err) {
+      console.error('Could not save recording:', err);
+      setError('Saving the recording failed.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const snapshot = async () => {
+    setError(null);
+    setBusy(true);
+    try {
+      const { name, zip } = await snapshotSlots(slots);
+      downloadBlob(zip, name);
+    } catch (err) {
+      console.error('Snapshot failed:', err);
+      setError('Snapshot failed.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // A recording keeps going with the slots it started with; stopping it early would lose data
+  const recording = recordingSince !== null;
+
+  return (
+    <div className="flex items-center gap-2">
+      {recording ? (
+        <button onClick={stopRecording} className="bg-red-600 hover:bg-red-700 text-white text-sm font-bold py-1.5 px-4 rounded-lg transition-colors">
+          ■ Stop <span className="font-mono">{formatDuration(elapsed)}</span>
+        </button>
+      ) : (
+        <button
+          onClick={startRecording}
+          disabled={slots.length === 0 || busy}
+          className="bg-gray-700 hover:bg-gray-600 text-white text-sm font-bold py-1.5 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Record every streaming slot to its own WebM"
+        >
+          <span className="text-red-500">●</span> Record
+        </button>
+      )}
+      <button
+        onClick={snapshot}
+        disabled={slots.length === 0 || busy}
+        className="bg-gray-700 hover:bg-gray-600 text-white text-sm font-bold py-1.5 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        title="Save a full-resolution PNG of every streaming slot in one zip"
+      >
+        Snapshot all
+      </button>
+      {error && <span className="text-sm text-red-400">{error}</span>}
+    </div>
+  );
+};
+
+export default RecordingControls;
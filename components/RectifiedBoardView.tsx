@@ -0,0 +1,128 @@
+import React, { useRef, useEffect, useState, RefObject } from 'react';
+import { useWorkerOpenCV, describeOpenCVState } from '../hooks/useOpenCV';
+import type { RectifierState } from '../lib/boardRectifier';
+import { visionPipeline } from '../lib/visionPipeline';
+import { createImagePdf, PdfImagePage } from '../lib/pdf';
+import { downloadBlob } from '../lib/download';
+
+// The board is processed in the vision worker, which also caps the rate across slots
+const PROCESS_INTERVAL_MS = 100;
+// Cleaning is heavier and the notes change slowly anyway
+const CLEAN_INTERVAL_MS = 400;
+
+export type BoardViewMode = 'rectified' | 'clean';
+
+const STATE_TEXT: Record<RectifierState, string> = {
+  searching: 'Looking for corner markers 0–3...',
+  tracking: 'Tracking',
+  holding: 'Holding (markers hidden)',
+};
+
+const toolButton = 'text-xs px-2 py-0.5 rounded bg-black/60 text-gray-200 hover:bg-black/80 disabled:opacity-50';
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+  new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, quality));
+
+const RectifiedBoardView: React.FC<{ videoRef: RefObject<HTMLVideoElement | null>; slotId: string; mode?: BoardViewMode }> = ({ videoRef, slotId, mode = 'rectified' }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [state, setState] = useState<RectifierState>('searching');
+  const [visibleCorners, setVisibleCorners] = useState(0);
+  const [removeForeground, setRemoveForeground] = useState(false);
+  const [pages, setPages] = useState<PdfImagePage[]>([]);
+  const removeForegroundRef = useRef(removeForeground);
+  const clean = mode === 'clean';
+  // Cleaning also works on the whole view, so it does not need ArUco support
+  const opencv = useWorkerOpenCV(clean ? ['imgproc'] : ['imgproc', 'aruco']);
+  const usable = opencv.availability === 'ready';
+
+  removeForegroundRef.current = removeForeground;
+
+  useEffect(() => {
+    if (!usable) return;
+    let timeoutId: ReturnType<typeof setTimeout>;
+    let cancelled = false;
+
+    const tick = async () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (video && canvas) {
+        try {
+          const result = await visionPipeline.processBoard(slotId, video, clean ? 'clean' : 'rectified', removeForegroundRef.current);
+          if (result && !cancelled) {
+            setState(result.state);
+            setVisibleCorners(result.visibleCorners);
+            if (result.image) {
+              canvas.width = result.image.width;
+              canvas.height = result.image.height;
+              canvas.getContext('2d')!.drawImage(result.image, 0, 0);
+            }
+          }
+          result?.image?.close();
+        } catch (err) {
+          console.error('Board rectification failed:', err);
+        }
+      }
+      if (!cancelled) timeoutId = setTimeout(tick, clean ? CLEAN_INTERVAL_MS : PROCESS_INTERVAL_MS);
+    };
+    tick();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [usable, videoRef, slotId, clean]);
+
+  // The worker keeps tracking state for the slot only while a board view is open
+  useEffect(() => () => visionPipeline.release(slotId, 'board'), [slotId]);
+
+  const savePng = async () => {
+    const blob = canvasRef.current && await canvasToBlob(canvasRef.current, 'image/png');
+    if (blob) downloadBlob(blob, `board-${Date.now()}.png`);
+  };
+
+  const addPage = async () => {
+    const canvas = canvasRef.current;
+    const jpeg = canvas && await canvasToBlob(canvas, 'image/jpeg', 0.92);
+    if (canvas && jpeg) setPages(prev => [...prev, { jpeg, width: canvas.width, height: canvas.height }]);
+  };
+
+  const savePdf = async () => {
+    if (pages.length === 0) return;
+    downloadBlob(await createImagePdf(pages), `board-notes-${Date.now()}.pdf`);
+  };
+
+  const message =
+    describeOpenCVState(opencv, clean ? 'the clean view' : 'board rectification') ??
+    (!clean && state === 'searching' ? STATE_TEXT.searching : null);
+
+  return (
+    <div className={`relative w-full h-full ${clean ? 'bg-white' : 'bg-gray-900'}`}>
+      <canvas ref={canvasRef} className={`w-full h-full object-contain ${!clean && state === 'searching' ? 'invisible' : ''}`} />
+      {message && (
+        <div className="absolute inset-0 flex items-center justify-center p-4 text-center text-sm text-gray-400 bg-gray-900">{message}</div>
+      )}
+      {usable && (clean || state !== 'searching') && (
+        <span className={`absolute top-2 left-2 text-xs px-2 py-0.5 rounded bg-black/60 ${state === 'tracking' ? 'text-green-400' : state === 'holding' ? 'text-yellow-400' : 'text-gray-300'}`}>
+          {clean && state === 'searching' ? 'Whole view (no corner markers)' : `${STATE_TEXT[state]} · ${visibleCorners}/4`}
+        </span>
+      )}
+      {usable && clean && (
+        <div className="absolute bottom-2 left-2 right-2 flex flex-wrap gap-1.5">
+          <button
+            onClick={() => setRemoveForeground(v => !v)}
+            className={`${toolButton} ${removeForeground ? '!bg-indigo-600 text-white' : ''}`}
+            title="Hide people in front of the board using the median of the last few seconds"
+          >
+            Remove people
+          </button>
+          <button onClick={savePng} className={toolButton}>PNG</button>
+          <button onClick={addPage} className={toolButton} title="Add the current board to the PDF">+ Page</button>
+          <button onClick={savePdf} disabled={pages.length === 0} className={toolButton}>PDF ({pages.length})</button>
+          {pages.length > 0 && <button onClick={() => setPages([])} className={toolButton}>Clear pages</button>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RectifiedBoardView;
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { useSessionReplay } from '../hooks/useSessionReplay';
+import { sessionReplay, REPLAY_RATES } from '../lib/sessionReplay';
+
+const formatTime = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}.${Math.floor((seconds - whole) * 10)}`;
+};
+
+const buttonClass = 'bg-gray-700 hover:bg-gray-600 text-white text-sm font-bold py-1.5 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+// --- Load a recorded session and drive its playback ---
+const ReplayControls: React.FC = () => {
+  const { sessionId, playing, time, duration, rate } = useSessionReplay();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setError(null);
+    setLoading(true);
+    try {
+      await sessionReplay.load(Array.from(files));
+    } catch (err) {
+      console.error('Could not open the recording:', err);
+      setError(err instanceof Error ? err.message : 'Could not open the recording.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!sessionId) {
+    return (
+      <div className="flex items-center gap-2">
+        <label className={`${buttonClass} ${loading ? 'opacity-50' : 'cursor-pointer'}`} title="Select a recording's manifest and its video files">
+          {loading ? 'Opening...' : 'Replay'}
+          <input
+            type="file"
+            multiple
+            accept=".json,.webm,video/*"
+            className="hidden"
+            disabled={loading}
+            onChange={(e) => {
+              load(e.target.files);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        {error && <span className="text-sm text-red-400">{error}</span>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="font-medium text-gray-400" title={sessionId}>Replay</span>
+      <button onClick={() => playing ? sessionReplay.pause() : sessionReplay.play()} className={buttonClass} aria-label={playing ? 'Pause' : 'Play'}>
+        {playing ? '❚❚' : '▶'}
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={duration}
+        step={0.1}
+        value={time}
+        onChange={(e) => sessionReplay.seek(Number(e.target.value))}
+        aria-label="Position"
+        className="w-40 sm:w-64 accent-indigo-500"
+      />
+      <span className="font-mono text-gray-300">{formatTime(time)} / {formatTime(duration)}</span>
+      <select
+        value={rate}
+        onChange={(e) => sessionReplay.setRate(Number(e.target.value))}
+        aria-label="Speed"
+        className="bg-gray-800 border border-gray-600 text-white rounded-lg px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+      >
+        {REPLAY_RATES.map(value => <option key={value} value={value}>{value}×</option>)}
+      </select>
+      <button onClick={() => sessionReplay.close()} className={buttonClass} title="Close the replay and go back to the live cameras">
+        Close
+      </button>
+    </div>
+  );
+};
+
+export default ReplayControls;
@@ -0,0 +1,90 @@
+import React, { useState, useEffect } from 'react';
+import DeviceSelector from './DeviceSelector';
+import TestSourceSettings from './TestSourceSettings';
+import { DEFAULT_TEST_SCENE } from '../lib/testSource';
+import type { ConsoleSlot } from '../lib/consoleSlots';
+import type { SlotSource } from '../types';
+
+interface SlotControlsProps {
+  slot: ConsoleSlot;
+  onRename: (label: string) => void;
+  onSourceChange: (source: SlotSource) => void;
+  // Omitted when the slot cannot move that way or be removed
+  onMoveBack?: () => void;
+  onMoveForward?: () => void;
+  onRemove?: () => void;
+  devices: MediaDeviceInfo[];
+  devicesReady: boolean;
+  takenDeviceIds: string[];
+}
+
+const iconButton = 'px-2 py-1 text-sm rounded-md text-gray-300 hover:bg-gray-700 disabled:opacity-30 disabled:hover:bg-transparent transition-colors';
+
+// --- Name, order and video source of one console slot ---
+const SlotControls: React.FC<SlotControlsProps> = ({ slot, onRename, onSourceChange, onMoveBack, onMoveForward, onRemove, devices, devicesReady, takenDeviceIds }) => {
+  const [draft, setDraft] = useState(slot.label);
+  const { source } = slot;
+
+  useEffect(() => setDraft(slot.label), [slot.label]);
+
+  const commitLabel = () => {
+    const label = draft.trim();
+    if (label && label !== slot.label) onRename(label);
+    else setDraft(slot.label);
+  };
+
+  const tabClass = (active: boolean) =>
+    `px-3 py-1 text-sm rounded-md transition-colors ${active ? 'bg-indigo-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`;
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-2">
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commitLabel}
+          onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+          aria-label="Slot name"
+          className="flex-grow min-w-0 bg-transparent border-b border-transparent hover:border-gray-600 focus:border-indigo-500 text-white font-semibold px-1 py-0.5 focus:outline-none"
+        />
+        <div className="flex bg-gray-800 rounded-lg p-1 gap-1">
+          <button onClick={onMoveBack} disabled={!onMoveBack} className={iconButton} aria-label="Move earlier" title="Move earlier">◀</button>
+          <button onClick={onMoveForward} disabled={!onMoveForward} className={iconButton} aria-label="Move later" title="Move later">▶</button>
+          <button onClick={onRemove} disabled={!onRemove} className={`${iconButton} hover:text-red-400`} aria-label="Remove slot" title="Remove slot">✕</button>
+        </div>
+      </div>
+      <div className="flex flex-col sm:flex-row sm:items-end gap-2">
+        <div className="flex bg-gray-800 rounded-lg p-1 gap-1 self-start">
+          <button onClick={() => source.kind !== 'remote' && onSourceChange({ kind: 'remote' })} className={tabClass(source.kind === 'remote')}>
+            📱 Phone
+          </button>
+          <button onClick={() => source.kind !== 'local' && onSourceChange({ kind: 'local', deviceId: null })} className={tabClass(source.kind === 'local')}>
+            🔌 Local camera
+          </button>
+          <button onClick={() => source.kind !== 'test' && onSourceChange({ kind: 'test', source: { ...DEFAULT_TEST_SCENE } })} className={tabClass(source.kind === 'test')}>
+            🧪 Test
+          </button>
+        </div>
+        {source.kind === 'local' && (
+          <div className="flex-grow">
+            <DeviceSelector
+              devices={devices}
+              selectedDeviceId={source.deviceId}
+              onChange={(deviceId) => onSourceChange({ kind: 'local', deviceId })}
+              disabled={!devicesReady}
+              label={`${slot.label} device`}
+              takenDeviceIds={takenDeviceIds}
+            />
+          </div>
+        )}
+        {source.kind === 'test' && (
+          <div className="flex-grow">
+            <TestSourceSettings source={source.source} onChange={(test) => onSourceChange({ kind: 'test', source: test })} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SlotControls;
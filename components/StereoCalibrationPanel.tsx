@@ -0,0 +1,220 @@
+import React, { useRef, useEffect, useState } from 'react';
+import { useOpenCV, describeOpenCVState } from '../hooks/useOpenCV';
+import { DEFAULT_CHARUCO_BOARD, CharucoDetection, detectCharuco, isNovelView } from '../lib/charuco';
+import { loadIntrinsics, CameraIdentity } from '../lib/calibration';
+import { calibrateStereo, loadStereo, saveStereo, DetectionPair, StereoCalibration } from '../lib/stereo';
+import { frameBridge } from '../lib/frameBridge';
+import { frameSync, SyncedFrame } from '../lib/frameSync';
+import { downloadJson } from '../lib/download';
+
+const DETECT_INTERVAL_MS = 250;
+const MIN_CORNERS_PER_VIEW = 8;
+const MIN_PAIRS = 5;
+
+export interface StereoSlot {
+  slotId: string;
+  label: string;
+  camera: CameraIdentity | null;
+}
+
+// Draws a frame into `canvas`, marks the detected corners and returns them.
+const drawAndDetect = (cv: any, frame: SyncedFrame, canvas: HTMLCanvasElement): CharucoDetection | null => {
+  canvas.width = frame.width;
+  canvas.height = frame.height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(frame.bitmap, 0, 0);
+
+  const src = cv.imread(canvas);
+  let detection: CharucoDetection;
+  try {
+    detection = detectCharuco(cv, src, DEFAULT_CHARUCO_BOARD);
+  } catch (err) {
+    console.error('ChArUco detection failed:', err);
+    return null;
+  } finally {
+    src.delete();
+  }
+
+  ctx.fillStyle = detection.ids.length >= MIN_CORNERS_PER_VIEW ? '#34d399' : '#f472b6';
+  const r = Math.max(3, canvas.width / 320);
+  detection.imagePoints.forEach(([x, y]) => {
+    ctx.beginPath();
+    ctx.arc(x, y, r, 0, Math.PI * 2);
+    ctx.fill();
+  });
+  return detection;
+};
+
+const StereoPreview: React.FC<{ slot: StereoSlot; canvasRef: React.RefObject<HTMLCanvasElement | null> }> = ({ slot, canvasRef }) => {
+  return (
+    <div className="flex-1 min-w-0">
+      <p className="text-sm font-semibold text-gray-300 mb-1">{slot.label}</p>
+      <canvas ref={canvasRef} className="w-full rounded bg-black aspect-video" />
+    </div>
+  );
+};
+
+const PairSelect: React.FC<{ slots: StereoSlot[]; value: StereoSlot; exclude: StereoSlot; onChange: (slotId: string) => void }> = ({ slots, value, exclude, onChange }) => (
+  <select
+    value={value.slotId}
+    onChange={(e) => onChange(e.target.value)}
+    className="bg-gray-700 border border-gray-600 text-white text-base rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+  >
+    {slots.map(slot => (
+      <option key={slot.slotId} value={slot.slotId} disabled={slot.slotId === exclude.slotId}>{slot.label}</option>
+    ))}
+  </select>
+);
+
+// --- Stereo extrinsic calibration between two of the streaming camera slots ---
+const StereoCalibrationPanel: React.FC<{ slots: StereoSlot[]; onClose: () => void }> = ({ slots, onClose }) => {
+  const [pairIds, setPairIds] = useState<[string, string]>([slots[0].slotId, slots[1].slotId]);
+  // Fall back to other slots if a chosen one stops streaming while the panel is open
+  const a = slots.find(slot => slot.slotId === pairIds[0]) || slots[0];
+  const b = slots.find(slot => slot.slotId === pairIds[1] && slot !== a) || slots.find(slot => slot !== a)!;
+  const pair = [a, b];
+  const canvasRefs = [useRef<HTMLCanvasElement>(null), useRef<HTMLCanvasElement>(null)];
+  const pairsRef = useRef<DetectionPair[]>([]);
+  const captureRequested = useRef(false);
+  const opencv = useOpenCV(['imgproc', 'calib3d', 'aruco']);
+  const loadState = opencv.availability;
+  const [pairs, setPairs] = useState<DetectionPair[]>([]);
+  const [liveCorners, setLiveCorners] = useState<[number, number]>([0, 0]);
+  const [autoCapture, setAutoCapture] = useState(true);
+  const [calibrating, setCalibrating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<StereoCalibration | null>(null);
+
+  pairsRef.current = pairs;
+
+  const intrinsics = [a.camera && loadIntrinsics(a.camera), b.camera && loadIntrinsics(b.camera)];
+  const missingIntrinsics = pair.filter((_, i) => !intrinsics[i]).map(slot => slot.label);
+
+  // Captured pairs only make sense for the cameras they were taken with
+  useEffect(() => {
+    setPairs([]);
+    setError(null);
+    setResult(a.camera && b.camera ? loadStereo(a.camera, b.camera) : null);
+  }, [a.slotId, b.slotId]);
+
+  useEffect(() => {
+    if (loadState !== 'ready') return;
+    const cv = window.cv;
+    let lastDetectAt = 0;
+
+    // Only time-matched frame sets are used, so each pair shows both cameras at the same moment
+    return frameSync.onFrameSet(set => {
+      const now = performance.now();
+      if (now - lastDetectAt < DETECT_INTERVAL_MS) return;
+      const frames = [a.slotId, b.slotId].map(slotId => set.frames.find(frame => frame.slotId === slotId));
+      const canvases = canvasRefs.map(ref => ref.current);
+      if (!frames[0] || !frames[1] || !canvases[0] || !canvases[1]) return;
+      lastDetectAt = now;
+
+      const detA = drawAndDetect(cv, frames[0], canvases[0]);
+      const detB = drawAndDetect(cv, frames[1], canvases[1]);
+      setLiveCorners([detA?.ids.length ?? 0, detB?.ids.length ?? 0]);
+
+      const usable = !!detA && !!detB && detA.ids.length >= MIN_CORNERS_PER_VIEW && detB.ids.length >= MIN_CORNERS_PER_VIEW;
+      const manual = captureRequested.current;
+      captureRequested.current = false;
+      if (usable && (manual || (autoCapture && isNovelView(detA!, pairsRef.current.map(p => p[0]), frames[0].width)))) {
+        setPairs(prev => [...prev, [detA!, detB!]]);
+      }
+    });
+  }, [loadState, autoCapture, a.slotId, b.slotId]);
+
+  const runCalibration = () => {
+    if (!a.camera || !b.camera || !intrinsics[0] || !intrinsics[1]) return;
+    setCalibrating(true);
+    setError(null);
+    // Let the "Computing..." state paint before OpenCV blocks the thread
+    setTimeout(() => {
+      try {
+        const calibration = calibrateStereo(window.cv, pairs, [
+          { slotId: a.slotId, label: a.label, camera: a.camera!, intrinsics: intrinsics[0]! },
+          { slotId: b.slotId, label: b.label, camera: b.camera!, intrinsics: intrinsics[1]! },
+        ], DEFAULT_CHARUCO_BOARD);
+        setResult(calibration);
+        saveStereo(calibration);
+        frameBridge.publishCalibration(calibration);
+      } catch (err) {
+        console.error('Stereo calibration failed:', err);
+        setError('Stereo calibration failed. Capture more pairs and try again.');
+      } finally {
+        setCalibrating(false);
+      }
+    }, 50);
+  };
+
+  const message =
+    missingIntrinsics.length > 0 ? `Calibrate ${missingIntrinsics.join(' and ')} on its own first (Calibrate button on the slot).` :
+    describeOpenCVState(opencv, 'stereo calibration');
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-6xl max-h-full overflow-y-auto p-6 space-y-4" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          {slots.length > 2 ? (
+            <h2 className="flex flex-wrap items-center gap-2 text-xl font-bold text-white">
+              Stereo calibration:
+              <PairSelect slots={slots} value={a} exclude={b} onChange={(slotId) => setPairIds([slotId, b.slotId])} />
+              ↔
+              <PairSelect slots={slots} value={b} exclude={a} onChange={(slotId) => setPairIds([a.slotId, slotId])} />
+            </h2>
+          ) : (
+            <h2 className="text-xl font-bold text-white">Stereo calibration: {a.label} ↔ {b.label}</h2>
+          )}
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-2xl leading-none" aria-label="Close">×</button>
+        </div>
+
+        {message ? (
+          <p className="text-gray-400">{message}</p>
+        ) : (
+          <>
+            <div className="flex flex-col md:flex-row gap-4">
+              <StereoPreview slot={a} canvasRef={canvasRefs[0]} />
+              <StereoPreview slot={b} canvasRef={canvasRefs[1]} />
+            </div>
+            <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm text-gray-300">
+              <span>Corners: <b>{liveCorners[0]}</b> / <b>{liveCorners[1]}</b></span>
+              <span>Pairs: <b>{pairs.length}</b>/{MIN_PAIRS}</span>
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={autoCapture} onChange={(e) => setAutoCapture(e.target.checked)} />
+                Auto-capture new poses
+              </label>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <button onClick={() => { captureRequested.current = true; }} className="bg-gray-700 hover:bg-gray-600 text-white text-sm py-1.5 px-3 rounded-lg">Capture pair</button>
+              <button onClick={() => setPairs([])} disabled={pairs.length === 0} className="bg-gray-700 hover:bg-gray-600 text-white text-sm py-1.5 px-3 rounded-lg disabled:opacity-50">Clear pairs</button>
+              <button
+                onClick={runCalibration}
+                disabled={pairs.length < MIN_PAIRS || calibrating}
+                className="bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-bold py-1.5 px-3 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {calibrating ? 'Computing...' : 'Compute'}
+              </button>
+            </div>
+            <p className="text-xs text-gray-500">Hold the ChArUco board where both cameras see it, and move it to several positions and angles. Previews only update with time-matched frame pairs.</p>
+          </>
+        )}
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        {result && (
+          <div className="bg-gray-900/60 rounded-lg p-4 text-sm text-gray-300 space-y-1 font-mono">
+            <p>Reprojection error: <b className={result.reprojectionError < 2 ? 'text-green-400' : 'text-yellow-400'}>{result.reprojectionError.toFixed(3)} px</b> ({result.pairs} pairs)</p>
+            <p>Baseline: {(Math.hypot(...result.translation) * 100).toFixed(1)} cm  T [{result.translation.map(t => t.toFixed(4)).join(', ')}] m</p>
+            <p>R [{result.rotation.map(v => v.toFixed(4)).join(', ')}]</p>
+            <p className="text-xs text-gray-500">Calibrated {new Date(result.calibratedAt).toLocaleString()}</p>
+            <div className="flex gap-2 mt-2 font-sans">
+              <button onClick={() => downloadJson(result, 'stereo-calibration.json')} className="bg-gray-700 hover:bg-gray-600 text-white text-sm py-1.5 px-3 rounded-lg">Download calibration file</button>
+              <button onClick={() => frameBridge.publishCalibration(result)} className="bg-gray-700 hover:bg-gray-600 text-white text-sm py-1.5 px-3 rounded-lg">Send to backend</button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StereoCalibrationPanel;
@@ -0,0 +1,41 @@
+import React from 'react';
+import { useSyncStats } from '../hooks/useFrameSync';
+import { frameSync } from '../lib/frameSync';
+
+const SOURCE_TEXT = {
+  capture: 'capture time',
+  receive: 'receive time',
+  render: 'render time',
+};
+
+// Shows how far apart the matched frames of all slots are and lets the operator set the tolerance.
+const SyncStatus: React.FC = () => {
+  const stats = useSyncStats();
+  if (stats.sources.length < 2) return null;
+
+  const skewColor = stats.skewMs === null ? 'text-gray-500' : stats.skewMs <= stats.toleranceMs / 2 ? 'text-green-400' : 'text-yellow-400';
+  const timestampSources = Array.from(new Set(stats.sources.map(source => SOURCE_TEXT[source.timestampSource])));
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-400">
+      <span>
+        Sync skew: <b className={skewColor}>{stats.skewMs === null ? '—' : `${stats.skewMs.toFixed(1)} ms`}</b>
+        {stats.setsPerSecond > 0 && <span className="text-gray-500"> ({stats.setsPerSecond} sets/s)</span>}
+      </span>
+      <label className="flex items-center gap-1.5">
+        Tolerance
+        <input
+          type="number"
+          min={1}
+          value={stats.toleranceMs}
+          onChange={(e) => frameSync.setTolerance(Number(e.target.value))}
+          className="w-16 bg-gray-800 border border-gray-600 text-white rounded px-2 py-0.5 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        ms
+      </label>
+      <span className="text-xs text-gray-500" title="Timestamp used for pairing">by {timestampSources.join(' / ')}</span>
+    </div>
+  );
+};
+
+export default SyncStatus;
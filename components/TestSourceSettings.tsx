@@ -0,0 +1,84 @@
+import React, { useState, useEffect } from 'react';
+import { DEFAULT_TEST_SCENE, openVideoFile } from '../lib/testSource';
+import type { TestSource } from '../types';
+
+interface TestSourceSettingsProps {
+  source: TestSource;
+  onChange: (source: TestSource) => void;
+  disabled?: boolean;
+}
+
+const inputClass = 'w-full bg-gray-700 border border-gray-600 text-white rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50';
+
+// --- Synthetic scene or video file standing in for a camera ---
+const TestSourceSettings: React.FC<TestSourceSettingsProps> = ({ source, onChange, disabled = false }) => {
+  const [url, setUrl] = useState(source.type === 'file' ? source.url : '');
+
+  useEffect(() => {
+    if (source.type === 'file') setUrl(source.url);
+  }, [source]);
+
+  const commitUrl = () => {
+    const trimmed = url.trim();
+    if (trimmed && (source.type !== 'file' || trimmed !== source.url)) onChange({ type: 'file', url: trimmed });
+  };
+
+  // Local files only last as long as the page; whoever holds the source releases the old one
+  const pickFile = (file: File | undefined) => {
+    if (file) onChange(openVideoFile(file));
+  };
+
+  const slider = (name: 'noise' | 'perspective', label: string) => source.type === 'scene' && (
+    <label className="flex items-center gap-2 text-sm text-gray-400">
+      <span className="w-24">{label}</span>
+      <input
+        type="range"
+        min={0}
+        max={1}
+        step={0.05}
+        value={source[name]}
+        onChange={(e) => onChange({ ...source, [name]: Number(e.target.value) })}
+        disabled={disabled}
+        className="flex-grow accent-indigo-500"
+      />
+      <span className="w-10 text-right font-mono text-xs">{source[name].toFixed(2)}</span>
+    </label>
+  );
+
+  return (
+    <div className="flex flex-col gap-2">
+      <select
+        value={source.type}
+        onChange={(e) => onChange(e.target.value === 'file' ? { type: 'file', url: url.trim() } : { ...DEFAULT_TEST_SCENE })}
+        disabled={disabled}
+        aria-label="Test source"
+        className={inputClass}
+      >
+        <option value="scene">Synthetic whiteboard</option>
+        <option value="file">Looping video file</option>
+      </select>
+      {slider('noise', 'Noise')}
+      {slider('perspective', 'Perspective')}
+      {source.type === 'file' && (
+        <div className="flex gap-2">
+          <input
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            onBlur={commitUrl}
+            onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+            placeholder="https://example.com/board.mp4"
+            disabled={disabled}
+            aria-label="Video URL"
+            className={`${inputClass} flex-grow min-w-0`}
+          />
+          <label className={`px-3 py-2 text-sm rounded-lg bg-gray-700 text-gray-200 ${disabled ? 'opacity-50' : 'hover:bg-gray-600 cursor-pointer'}`}>
+            File…
+            <input type="file" accept="video/*" className="hidden" disabled={disabled} onChange={(e) => pickFile(e.target.files?.[0])} />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TestSourceSettings;
@@ -0,0 +1,100 @@
+import React, { useState, RefObject } from 'react';
+import { useTranscriptions } from '../hooks/useTranscriptions';
+import { transcriptionHistory, transcriptionToMarkdown, TranscriptionEntry } from '../lib/transcriptions';
+import { downloadBlob } from '../lib/download';
+
+const toolButton = 'text-xs px-2 py-0.5 rounded bg-gray-600 text-gray-300 hover:bg-gray-500 disabled:opacity-50';
+
+const EntryCard: React.FC<{ entry: TranscriptionEntry; label: string }> = ({ entry, label }) => {
+  const { result } = entry;
+
+  const copy = () => navigator.clipboard.writeText(transcriptionToMarkdown(entry, label))
+    .catch(err => console.error('Copy failed:', err));
+  const save = () => downloadBlob(
+    new Blob([transcriptionToMarkdown(entry, label)], { type: 'text/markdown' }),
+    `${label.replace(/[^a-z0-9]+/gi, '-')}_${entry.capturedAt}.md`,
+  );
+
+  return (
+    <div className="bg-gray-900 rounded p-2 space-y-2 text-sm">
+      <div className="flex items-start gap-2">
+        <a href={entry.imageUrl} target="_blank" rel="noreferrer" className="flex-shrink-0">
+          <img src={entry.imageUrl} alt="Transcribed snapshot" className="w-20 aspect-video object-cover rounded" />
+        </a>
+        <div className="flex-1 min-w-0 text-xs text-gray-400">
+          <div className="font-mono text-gray-300">{new Date(entry.capturedAt).toLocaleTimeString()}</div>
+          <div>{entry.rectified ? 'Rectified board' : 'Camera view'}</div>
+          {entry.status === 'pending' && <div className="text-indigo-300">Transcribing...</div>}
+          {entry.status === 'error' && <div className="text-red-400 break-words">{entry.error}</div>}
+        </div>
+        <div className="flex gap-1">
+          {result && <button onClick={copy} className={toolButton}>Copy</button>}
+          {result && <button onClick={save} className={toolButton}>.md</button>}
+          <button onClick={() => transcriptionHistory.remove(entry.slotId, entry.id)} className={toolButton} title="Remove">✕</button>
+        </div>
+      </div>
+      {result && (
+        <>
+          {result.text && <p className="text-gray-200 whitespace-pre-wrap">{result.text}</p>}
+          {result.latex.length > 0 && (
+            <div>
+              <h4 className="text-xs font-semibold text-gray-400 uppercase">Math</h4>
+              {result.latex.map((expr, i) => (
+                <code key={i} className="block text-xs text-amber-200 font-mono break-all">{expr}</code>
+              ))}
+            </div>
+          )}
+          {result.diagrams.length > 0 && (
+            <div>
+              <h4 className="text-xs font-semibold text-gray-400 uppercase">Diagrams</h4>
+              <ul className="list-disc list-inside text-gray-300">
+                {result.diagrams.map((description, i) => <li key={i}>{description}</li>)}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+// --- Transcribe the board on a slot and browse earlier transcriptions, newest first ---
+const TranscriptionPanel: React.FC<{ videoRef: RefObject<HTMLVideoElement | null>; slotId: string; label: string }> = ({ videoRef, slotId, label }) => {
+  const entries = useTranscriptions(slotId);
+  const [capturing, setCapturing] = useState(false);
+
+  const transcribe = async () => {
+    const video = videoRef.current;
+    if (!video || video.videoWidth === 0) return;
+    setCapturing(true);
+    try {
+      await transcriptionHistory.transcribe(slotId, video);
+    } catch (err) {
+      console.error('Could not snapshot the board:', err);
+    } finally {
+      setCapturing(false);
+    }
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-gray-800">
+      <div className="flex items-center gap-2 p-2 border-b border-gray-700">
+        <button
+          onClick={transcribe}
+          disabled={capturing}
+          className="text-xs px-2 py-0.5 rounded bg-indigo-600 hover:bg-indigo-700 text-white disabled:opacity-50"
+        >
+          {capturing ? 'Capturing...' : 'Transcribe board'}
+        </button>
+        <span className="text-xs text-gray-500 flex-1">via {transcriptionHistory.transcriberName}</span>
+        {entries.length > 0 && <button onClick={() => transcriptionHistory.clear(slotId)} className={toolButton}>Clear</button>}
+      </div>
+      <div className="flex-1 overflow-y-auto p-2 space-y-2">
+        {entries.length === 0 && <p className="text-xs text-gray-500">Nothing transcribed yet.</p>}
+        {[...entries].reverse().map(entry => <EntryCard key={entry.id} entry={entry} label={label} />)}
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptionPanel;
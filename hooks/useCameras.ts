@@ -1,9 +1,24 @@
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 
 export const useCameras = () => {
   const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [initialized, setInitialized] = useState(false);
+
+  const refreshDevices = useCallback(async () => {
+    const allDevices = await navigator.mediaDevices.enumerateDevices();
+    const videoDevices = allDevices.filter(d => d.kind === 'videoinput');
+
+    if (videoDevices.length === 0) {
+      setError("No video input devices found.");
+      setDevices([]);
+      return;
+    }
+
+    setDevices(videoDevices);
+    setError(null);
+  }, []);
 
   const initializeCameras = useCallback(async (): Promise<boolean> => {
     if (!navigator.mediaDevices || !navigator.mediaDevices.enumerateDevices) {
@@ -18,18 +33,9 @@ export const useCameras = () => {
       stream.getTracks().forEach(track => track.stop());
 
       // Now enumerate devices to get the full list with labels.
-      const allDevices = await navigator.mediaDevices.enumerateDevices();
-      const videoDevices = allDevices.filter(d => d.kind === 'videoinput');
-      
-      if (videoDevices.length === 0) {
-        setError("No video input devices found.");
-        setDevices([]);
-        return true; // Not a failure, but no devices.
-      }
-
-      setDevices(videoDevices);
-      setError(null);
-      return true;
+      await refreshDevices();
+      setInitialized(true);
+      return true; // Not a failure even if there are no devices.
     } catch (err) {
       if (err instanceof Error) {
         if (err.name === 'NotAllowedError' || err.name === 'PermissionDeniedError') {
@@ -42,7 +48,17 @@ export const useCameras = () => {
       }
       return false;
     }
-  }, []);
+  }, [refreshDevices]);
+
+  // Keep the list current as cameras are plugged in or removed.
+  useEffect(() => {
+    if (!initialized) return;
+    const onDeviceChange = () => {
+      refreshDevices().catch(err => console.error('Could not refresh camera list:', err));
+    };
+    navigator.mediaDevices.addEventListener('devicechange', onDeviceChange);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', onDeviceChange);
+  }, [initialized, refreshDevices]);
 
-  return { devices, error, initializeCameras };
+  return { devices, error, initialized, initializeCameras };
 };
@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { connectionStats, ConnectionStats } from '../lib/connectionStats';
+
+const subscribe = (listener: () => void) => connectionStats.subscribe(listener);
+
+// Latest WebRTC stats of a phone slot; null for local cameras and before the first sample
+export const useConnectionStats = (slotId: string): ConnectionStats | null =>
+  useSyncExternalStore(subscribe, () => connectionStats.getStats(slotId));
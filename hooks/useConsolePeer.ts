@@ -0,0 +1,14 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { consolePeer, ConsolePeerInfo, SlotConnection } from '../lib/consolePeer';
+
+const subscribe = (listener: () => void) => consolePeer.subscribe(listener);
+
+export const useConsolePeerInfo = (): ConsolePeerInfo => useSyncExternalStore(subscribe, () => consolePeer.getInfo());
+
+export const useSlotConnection = (slotId: string): SlotConnection =>
+  useSyncExternalStore(subscribe, () => consolePeer.getSlot(slotId));
+
+// Keeps the console peer open while the calling component is mounted.
+export const useConsolePeer = () => {
+  useEffect(() => consolePeer.start(), []);
+};
@@ -0,0 +1,48 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ConsoleSlot, MAX_CONSOLE_SLOTS, createConsoleSlot, loadConsoleSlots, saveConsoleSlots } from '../lib/consoleSlots';
+import { isPickedFile } from '../lib/testSource';
+
+const pickedFileUrls = (slots: ConsoleSlot[]) =>
+  slots.flatMap(slot => slot.source.kind === 'test' && isPickedFile(slot.source.source) ? [slot.source.source.url] : []);
+
+// The console's camera slots, persisted across reloads.
+export const useConsoleSlots = () => {
+  const [slots, setSlots] = useState<ConsoleSlot[]>(loadConsoleSlots);
+
+  useEffect(() => saveConsoleSlots(slots), [slots]);
+
+  // Releases picked video files once no slot plays them any more
+  const fileUrls = useRef<string[]>([]);
+  useEffect(() => {
+    const current = pickedFileUrls(slots);
+    fileUrls.current.filter(url => !current.includes(url)).forEach(url => URL.revokeObjectURL(url));
+    fileUrls.current = current;
+  }, [slots]);
+  useEffect(() => () => fileUrls.current.forEach(url => URL.revokeObjectURL(url)), []);
+
+  const addSlot = useCallback(() => {
+    setSlots(prev => prev.length >= MAX_CONSOLE_SLOTS ? prev : [...prev, createConsoleSlot(prev)]);
+  }, []);
+
+  const removeSlot = useCallback((id: string) => {
+    setSlots(prev => prev.length <= 1 ? prev : prev.filter(slot => slot.id !== id));
+  }, []);
+
+  const updateSlot = useCallback((id: string, changes: Partial<Omit<ConsoleSlot, 'id'>>) => {
+    setSlots(prev => prev.map(slot => slot.id === id ? { ...slot, ...changes } : slot));
+  }, []);
+
+  // Moves a slot `offset` places earlier (negative) or later (positive) in the grid.
+  const moveSlot = useCallback((id: string, offset: number) => {
+    setSlots(prev => {
+      const from = prev.findIndex(slot => slot.id === id);
+      const to = from + offset;
+      if (from < 0 || to < 0 || to >= prev.length) return prev;
+      const next = [...prev];
+      next.splice(to, 0, next.splice(from, 1)[0]);
+      return next;
+    });
+  }, []);
+
+  return { slots, addSlot, removeSlot, updateSlot, moveSlot };
+};
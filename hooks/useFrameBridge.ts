@@ -0,0 +1,109 @@
+import { useEffect, useSyncExternalStore, RefObject } from 'react';
+import { frameBridge, BridgeSendMode, BridgeSlotStatus } from '../lib/frameBridge';
+import { frameSync } from '../lib/frameSync';
+import { keyframeTimeline, Keyframe } from '../lib/keyframes';
+import { visionPipeline } from '../lib/visionPipeline';
+
+// How often a keyframe the bridge turned away is offered again
+const PENDING_RETRY_MS = 100;
+
+const subscribe = (listener: () => void) => frameBridge.subscribe(listener);
+
+export const useBridgeStatus = (slotId: string): BridgeSlotStatus =>
+  useSyncExternalStore(subscribe, () => frameBridge.getSlotStatus(slotId));
+
+export const useBridgeUrl = () => {
+  const url = useSyncExternalStore(subscribe, () => frameBridge.getUrl());
+  return [url, (next: string) => frameBridge.setUrl(next)] as const;
+};
+
+export const useBridgeSendMode = () => {
+  const mode = useSyncExternalStore(subscribe, () => frameBridge.getSendMode());
+  return [mode, (next: BridgeSendMode) => frameBridge.setSendMode(next)] as const;
+};
+
+// Sends the slot's keyframes as they are taken, and the latest one again whenever the bridge
+// (re)connects so the backend always has the current board. A keyframe the bridge cannot take
+// yet (busy, at its frame rate cap or over its buffer) waits until the socket drains, unless a
+// newer one replaces it. Returns a function that stops.
+const forwardKeyframes = (slotId: string): () => void => {
+  const detach = frameBridge.attach(slotId);
+  let cancelled = false;
+  let wasConnected = false;
+  let pending: Keyframe | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const sendKeyframe = (keyframe: Keyframe) => {
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+    if (!frameBridge.shouldSend(slotId)) {
+      pending = keyframe;
+      // While offline the reconnect below sends the latest keyframe
+      if (frameBridge.getSlotStatus(slotId) !== 'offline') {
+        retryTimer = setTimeout(() => pending && sendKeyframe(pending), PENDING_RETRY_MS);
+      }
+      return;
+    }
+    pending = null;
+    const { width, height, capturedAt } = keyframe;
+    const change = keyframe.initial ? undefined : keyframe.change;
+    keyframe.image.arrayBuffer()
+      .then(jpeg => frameBridge.send(slotId, cancelled ? null : { jpeg, width, height, capturedAt, change }))
+      .catch(() => frameBridge.send(slotId, null));
+  };
+
+  const stopKeyframes = keyframeTimeline.onKeyframe(keyframe => {
+    if (keyframe.slotId === slotId) sendKeyframe(keyframe);
+  });
+  const stopStatus = frameBridge.subscribe(() => {
+    const connected = frameBridge.getSlotStatus(slotId) !== 'offline';
+    const reconnected = connected && !wasConnected;
+    wasConnected = connected;
+    const latest = keyframeTimeline.getKeyframes(slotId).slice(-1)[0];
+    if (reconnected && latest) sendKeyframe(latest);
+  });
+
+  return () => {
+    cancelled = true;
+    if (retryTimer) clearTimeout(retryTimer);
+    stopKeyframes();
+    stopStatus();
+    detach();
+  };
+};
+
+// Forwards JPEG frames from a video element to the shared frame bridge while `active` is set:
+// every frame the bridge accepts, or only board-change keyframes, depending on the send mode.
+export const useFrameForwarder = (videoRef: RefObject<HTMLVideoElement | null>, slotId: string, active: boolean) => {
+  const [sendMode] = useBridgeSendMode();
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !active) return;
+    if (sendMode === 'changes') return forwardKeyframes(slotId);
+
+    const detach = frameBridge.attach(slotId);
+    let animationId: number;
+    let cancelled = false;
+
+    const sendFrame = () => {
+      if (video.videoWidth > 0 && frameBridge.shouldSend(slotId)) {
+        // Prefer the source capture time of the frame on screen over the time we grabbed it
+        const capturedAt = frameSync.latestFrameTime(slotId) ?? Date.now();
+        // Encoded in the vision worker; null when it skipped the frame
+        visionPipeline.encodeFrame(slotId, video, 0.8)
+          .then(frame => frameBridge.send(slotId, frame && !cancelled ? { ...frame, capturedAt } : null))
+          .catch(() => frameBridge.send(slotId, null));
+      }
+      animationId = requestAnimationFrame(sendFrame);
+    };
+
+    animationId = requestAnimationFrame(sendFrame);
+
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(animationId);
+      detach();
+    };
+  }, [videoRef, slotId, active, sendMode]);
+};
@@ -0,0 +1,15 @@
+import { useEffect, useSyncExternalStore, RefObject } from 'react';
+import { frameSync, SyncStats } from '../lib/frameSync';
+
+const subscribe = (listener: () => void) => frameSync.subscribe(listener);
+
+export const useSyncStats = (): SyncStats => useSyncExternalStore(subscribe, () => frameSync.getStats());
+
+// Registers a slot's video with the frame sync layer while `active` is set.
+export const useFrameSyncSource = (videoRef: RefObject<HTMLVideoElement | null>, slotId: string, active: boolean) => {
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !active) return;
+    return frameSync.addSource(slotId, video);
+  }, [videoRef, slotId, active]);
+};
@@ -0,0 +1,16 @@
+import { useEffect, useSyncExternalStore, RefObject } from 'react';
+import { keyframeTimeline, Keyframe } from '../lib/keyframes';
+
+const subscribe = (listener: () => void) => keyframeTimeline.subscribe(listener);
+
+export const useKeyframes = (slotId: string): Keyframe[] =>
+  useSyncExternalStore(subscribe, () => keyframeTimeline.getKeyframes(slotId));
+
+// Watches a slot's video for board changes while `active` is set.
+export const useKeyframeSource = (videoRef: RefObject<HTMLVideoElement | null>, slotId: string, active: boolean) => {
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !active) return;
+    return keyframeTimeline.addSource(slotId, video);
+  }, [videoRef, slotId, active]);
+};
@@ -0,0 +1,84 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { getOpenCVStatus, loadOpenCV, missingOpenCVModules, subscribeOpenCVStatus, OpenCVModule, OpenCVStatus } from '../lib/opencvLoader';
+import { visionPipeline } from '../lib/visionPipeline';
+
+export type OpenCVAvailability = 'loading' | 'ready' | 'missing-modules' | 'failed';
+
+export interface OpenCVState {
+  availability: OpenCVAvailability;
+  // Required modules the loaded build lacks
+  missing: OpenCVModule[];
+  status: OpenCVStatus;
+}
+
+// Load status only, without triggering a load
+export const useOpenCVStatus = (): OpenCVStatus => useSyncExternalStore(subscribeOpenCVStatus, getOpenCVStatus);
+
+const toOpenCVState = (status: OpenCVStatus, required: OpenCVModule[]): OpenCVState => {
+  const missing = missingOpenCVModules(required, status);
+  const availability: OpenCVAvailability =
+    status.state === 'failed' ? 'failed' :
+    status.state !== 'ready' ? 'loading' :
+    missing.length > 0 ? 'missing-modules' : 'ready';
+  return { availability, missing, status };
+};
+
+// Lazily loads OpenCV.js on the page for components that need it and tells whether the loaded
+// build has the modules they require.
+export const useOpenCV = (required: OpenCVModule[]): OpenCVState => {
+  const status = useOpenCVStatus();
+
+  useEffect(() => {
+    loadOpenCV().catch(err => console.error('OpenCV.js failed to load:', err));
+  }, []);
+
+  return toOpenCVState(status, required);
+};
+
+const subscribeWorker = (listener: () => void) => visionPipeline.subscribe(listener);
+
+// OpenCV.js load status in the vision worker, without triggering a load
+export const useWorkerOpenCVStatus = (): OpenCVStatus =>
+  useSyncExternalStore(subscribeWorker, () => visionPipeline.getOpenCVStatus());
+
+// Same as useOpenCV, for the build loaded inside the vision worker
+export const useWorkerOpenCV = (required: OpenCVModule[]): OpenCVState => {
+  const status = useWorkerOpenCVStatus();
+
+  useEffect(() => visionPipeline.loadOpenCV(), []);
+
+  return toOpenCVState(status, required);
+};
+
+const megabytes = (bytes: number) => (bytes / 1e6).toFixed(1);
+
+// Where a build came from, short enough for a status line
+export const describeOpenCVSource = (url: string) => {
+  try {
+    const parsed = new URL(url, window.location.href);
+    return parsed.origin === window.location.origin ? 'this server' : parsed.host;
+  } catch {
+    return url;
+  }
+};
+
+// Why `feature` cannot run yet, or null once OpenCV is usable for it
+export const describeOpenCVState = ({ availability, missing, status }: OpenCVState, feature: string): string | null => {
+  switch (availability) {
+    case 'ready':
+      return null;
+    case 'loading': {
+      if (!status.url) return 'Loading OpenCV...';
+      const progress = status.totalBytes
+        ? `${megabytes(status.loadedBytes)} / ${megabytes(status.totalBytes)} MB`
+        : `${megabytes(status.loadedBytes)} MB`;
+      return `Loading OpenCV from ${describeOpenCVSource(status.url)}... ${progress}`;
+    }
+    case 'missing-modules':
+      return `The OpenCV build from ${describeOpenCVSource(status.url!)} has no ${missing.join(', ')} module, so ${feature} is unavailable. Serve a build that includes it (see OPENCV_URLS).`;
+    case 'failed': {
+      const last = status.failures[status.failures.length - 1];
+      return `OpenCV could not be loaded${last ? ` (${describeOpenCVSource(last.url)}: ${last.error})` : ''}.`;
+    }
+  }
+};
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { sessionReplay, ReplayState } from '../lib/sessionReplay';
+
+const subscribe = (listener: () => void) => sessionReplay.subscribe(listener);
+
+// The open replay and its clock; `sessionId` is null while the console shows live cameras
+export const useSessionReplay = (): ReplayState => useSyncExternalStore(subscribe, () => sessionReplay.getState());
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { transcriptionHistory, TranscriptionEntry } from '../lib/transcriptions';
+
+const subscribe = (listener: () => void) => transcriptionHistory.subscribe(listener);
+
+export const useTranscriptions = (slotId: string): TranscriptionEntry[] =>
+  useSyncExternalStore(subscribe, () => transcriptionHistory.getEntries(slotId));
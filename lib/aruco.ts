@@ -0,0 +1,88 @@
+// ArUco helpers on top of the OpenCV.js runtime from `loadOpenCV`.
+// OpenCV.js builds differ: 4.7+ exposes `cv.aruco_ArucoDetector`, older contrib builds expose
+// the free function `cv.detectMarkers`. Both are supported here.
+
+export interface DetectedMarker {
+  id: number;
+  // Marker corners in image pixels, clockwise starting at the marker's own top-left
+  corners: [number, number][];
+}
+
+export const DEFAULT_DICTIONARY = 'DICT_4X4_50';
+
+const getDictionary = (cv: any, name: string) => {
+  const dictId = cv[name];
+  if (typeof cv.getPredefinedDictionary === 'function') return cv.getPredefinedDictionary(dictId);
+  return new cv.aruco_Dictionary(dictId);
+};
+
+// Detects ArUco markers in an RGBA or grayscale Mat. The caller keeps ownership of `image`.
+export const detectMarkers = (cv: any, image: any, dictionaryName = DEFAULT_DICTIONARY): DetectedMarker[] => {
+  const dictionary = getDictionary(cv, dictionaryName);
+  const corners = new cv.MatVector();
+  const ids = new cv.Mat();
+  const gray = new cv.Mat();
+  let detector: any = null;
+  let params: any = null;
+
+  try {
+    if (image.channels() === 1) image.copyTo(gray);
+    else cv.cvtColor(image, gray, cv.COLOR_RGBA2GRAY);
+
+    if (typeof cv.aruco_ArucoDetector === 'function') {
+      params = new cv.aruco_DetectorParameters();
+      const refine = new cv.aruco_RefineParameters(10, 3, true);
+      detector = new cv.aruco_ArucoDetector(dictionary, params, refine);
+      refine.delete?.();
+      detector.detectMarkers(gray, corners, ids);
+    } else {
+      params = new cv.aruco_DetectorParameters();
+      const rejected = new cv.MatVector();
+      cv.detectMarkers(gray, dictionary, corners, ids, params, rejected);
+      rejected.delete();
+    }
+
+    const markers: DetectedMarker[] = [];
+    for (let i = 0; i < ids.rows; i++) {
+      const c = corners.get(i);
+      const data = c.data32F;
+      markers.push({
+        id: ids.data32S[i],
+        corners: [[data[0], data[1]], [data[2], data[3]], [data[4], data[5]], [data[6], data[7]]],
+      });
+      c.delete();
+    }
+    return markers;
+  } finally {
+    detector?.delete?.();
+    params?.delete?.();
+    dictionary.delete?.();
+    corners.delete();
+    ids.delete();
+    gray.delete();
+  }
+};
+
+// Renders marker `id` as a grayscale bitmap of `side` pixels (black border included).
+export const renderMarker = (cv: any, id: number, side: number, dictionaryName = DEFAULT_DICTIONARY): ImageData => {
+  const dictionary = getDictionary(cv, dictionaryName);
+  const img = new cv.Mat();
+  try {
+    if (typeof cv.generateImageMarker === 'function') cv.generateImageMarker(dictionary, id, side, img, 1);
+    else if (typeof dictionary.generateImageMarker === 'function') dictionary.generateImageMarker(id, side, img, 1);
+    else cv.drawMarker(dictionary, id, side, img, 1);
+
+    const out = new ImageData(side, side);
+    for (let i = 0; i < side * side; i++) {
+      const v = img.data[i];
+      out.data[i * 4] = v;
+      out.data[i * 4 + 1] = v;
+      out.data[i * 4 + 2] = v;
+      out.data[i * 4 + 3] = 255;
+    }
+    return out;
+  } finally {
+    dictionary.delete?.();
+    img.delete();
+  }
+};
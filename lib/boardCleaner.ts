@@ -0,0 +1,137 @@
+// Turns a camera view of a whiteboard into clean, legible notes: lighting and shadows are
+// flattened by dividing each channel by an estimate of the bare board, which also white-balances
+// it, and the result is contrast-stretched so the board goes white and the ink stays saturated.
+// Optionally, people walking in front of the board are removed with a per-pixel median over
+// frames sampled during the last few seconds.
+import { createCanvas, context2d, AnyCanvas } from './canvas';
+
+export interface CleanOptions {
+  removeForeground: boolean;
+}
+
+// Cleaning runs at this width at most; that is still plenty for reading the board
+const MAX_CLEAN_WIDTH = 1280;
+// Background estimate is computed at a quarter of the size, where ink strokes are thin enough
+// for a small dilation to erase them
+const BACKGROUND_SCALE = 0.25;
+const INK_ERASE_KERNEL = 5;
+const BACKGROUND_BLUR = 9;
+// Levels applied after flattening: at or above WHITE becomes paper white, BLACK and below full ink
+const LEVEL_WHITE = 225;
+const LEVEL_BLACK = 70;
+// Foreground removal keeps this many frames, sampled this far apart (about 7 s of history)
+const HISTORY_FRAMES = 7;
+const SAMPLE_INTERVAL_MS = 1000;
+
+const LEVELS = (() => {
+  const lut = new Uint8ClampedArray(256);
+  for (let v = 0; v < 256; v++) lut[v] = ((v - LEVEL_BLACK) * 255) / (LEVEL_WHITE - LEVEL_BLACK);
+  return lut;
+})();
+
+// Per-byte median of equally sized frames (alpha included, which is always opaque anyway)
+const medianOf = (frames: Uint8ClampedArray[], out: Uint8ClampedArray) => {
+  const n = frames.length;
+  const values = new Uint8Array(n);
+  const mid = n >> 1;
+  for (let i = 0; i < out.length; i++) {
+    for (let k = 0; k < n; k++) {
+      // Insertion sort; n is tiny
+      const v = frames[k][i];
+      let j = k - 1;
+      while (j >= 0 && values[j] > v) {
+        values[j + 1] = values[j];
+        j--;
+      }
+      values[j + 1] = v;
+    }
+    out[i] = values[mid];
+  }
+};
+
+export class BoardCleaner {
+  private grabCanvas = createCanvas();
+  private grabCtx = context2d(this.grabCanvas, true);
+  private history: Uint8ClampedArray[] = [];
+  private lastSampleAt = -Infinity;
+  private median: ImageData | null = null;
+
+  reset() {
+    this.history = [];
+    this.median = null;
+    this.lastSampleAt = -Infinity;
+  }
+
+  // Draws the cleaned version of `source` (a video frame or a rectified board canvas) into `output`.
+  process(cv: any, source: CanvasImageSource, sourceWidth: number, sourceHeight: number, output: AnyCanvas, options: CleanOptions) {
+    const scale = Math.min(1, MAX_CLEAN_WIDTH / sourceWidth);
+    const width = Math.round(sourceWidth * scale);
+    const height = Math.round(sourceHeight * scale);
+    if (this.grabCanvas.width !== width || this.grabCanvas.height !== height) {
+      this.grabCanvas.width = width;
+      this.grabCanvas.height = height;
+      this.reset();
+    }
+    this.grabCtx.drawImage(source, 0, 0, width, height);
+    let frame = this.grabCtx.getImageData(0, 0, width, height);
+
+    if (options.removeForeground) {
+      frame = this.foregroundFree(frame);
+    } else if (this.history.length) {
+      this.reset();
+    }
+
+    const src = cv.matFromImageData(frame);
+    const rgb = new cv.Mat();
+    const small = new cv.Mat();
+    const background = new cv.Mat();
+    const flat = new cv.Mat();
+    const kernel = cv.Mat.ones(INK_ERASE_KERNEL, INK_ERASE_KERNEL, cv.CV_8U);
+    try {
+      cv.cvtColor(src, rgb, cv.COLOR_RGBA2RGB);
+      cv.resize(rgb, small, new cv.Size(0, 0), BACKGROUND_SCALE, BACKGROUND_SCALE, cv.INTER_AREA);
+      // Dark ink on a light board: dilation spreads the board over the strokes
+      cv.dilate(small, small, kernel);
+      cv.medianBlur(small, small, BACKGROUND_BLUR);
+      cv.resize(small, background, new cv.Size(width, height), 0, 0, cv.INTER_LINEAR);
+      cv.divide(rgb, background, flat, 255);
+
+      const flatData: Uint8Array = flat.data;
+      const cleaned = new ImageData(width, height);
+      const out = cleaned.data;
+      for (let i = 0, j = 0; i < out.length; i += 4, j += 3) {
+        out[i] = LEVELS[flatData[j]];
+        out[i + 1] = LEVELS[flatData[j + 1]];
+        out[i + 2] = LEVELS[flatData[j + 2]];
+        out[i + 3] = 255;
+      }
+      output.width = width;
+      output.height = height;
+      context2d(output).putImageData(cleaned, 0, 0);
+    } finally {
+      src.delete();
+      rgb.delete();
+      small.delete();
+      background.delete();
+      flat.delete();
+      kernel.delete();
+    }
+  }
+
+  // Samples the frame into the history now and then and returns the median of the history, in
+  // which anything that moved through the view is gone. Until enough history exists, the frame
+  // itself is used.
+  private foregroundFree(frame: ImageData): ImageData {
+    const now = performance.now();
+    if (now - this.lastSampleAt >= SAMPLE_INTERVAL_MS) {
+      this.lastSampleAt = now;
+      this.history.push(new Uint8ClampedArray(frame.data));
+      if (this.history.length > HISTORY_FRAMES) this.history.shift();
+      if (this.history.length >= 3) {
+        this.median = new ImageData(frame.width, frame.height);
+        medianOf(this.history, this.median.data);
+      }
+    }
+    return this.median ?? frame;
+  }
+}
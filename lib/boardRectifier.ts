@@ -0,0 +1,97 @@
+// Finds the whiteboard from four corner ArUco markers and warps it to a flat, top-down image.
+import { detectMarkers } from './aruco';
+import { createCanvas, context2d, readMat, showMat, AnyCanvas } from './canvas';
+
+// Marker IDs stuck on the board corners, in board order: top-left, top-right, bottom-right,
+// bottom-left. For each marker we use its own corner with the same index, i.e. the outer one.
+export const CORNER_MARKER_IDS = [0, 1, 2, 3];
+
+// A hidden corner keeps its last seen position for this long (someone's arm is in the way).
+const HOLD_TIMEOUT_MS = 10000;
+// Detection runs on a downscaled copy of the frame to keep the UI responsive.
+const MAX_DETECT_WIDTH = 1280;
+
+export type RectifierState = 'searching' | 'tracking' | 'holding';
+
+export interface RectifyResult {
+  state: RectifierState;
+  visibleCorners: number;
+  // Board corners in source frame pixels (TL, TR, BR, BL), when known
+  corners: [number, number][] | null;
+}
+
+interface HeldCorner {
+  point: [number, number];
+  seenAt: number;
+}
+
+export class BoardRectifier {
+  private held: (HeldCorner | null)[] = [null, null, null, null];
+  private grabCanvas = createCanvas();
+  private grabCtx = context2d(this.grabCanvas, true);
+
+  constructor(private outputWidth = 1280, private outputHeight = 720) {}
+
+  reset() {
+    this.held = [null, null, null, null];
+  }
+
+  // Detects the corner markers in a video frame and, if the board is known, draws the rectified
+  // board into `output`.
+  process(cv: any, source: CanvasImageSource, sourceWidth: number, sourceHeight: number, output: AnyCanvas): RectifyResult {
+    const scale = Math.min(1, MAX_DETECT_WIDTH / sourceWidth);
+    const width = Math.round(sourceWidth * scale);
+    const height = Math.round(sourceHeight * scale);
+    this.grabCanvas.width = width;
+    this.grabCanvas.height = height;
+    this.grabCtx.drawImage(source, 0, 0, width, height);
+
+    const src = readMat(cv, this.grabCanvas);
+    try {
+      const now = performance.now();
+      const markers = detectMarkers(cv, src);
+      let visibleCorners = 0;
+      CORNER_MARKER_IDS.forEach((id, i) => {
+        const marker = markers.find(m => m.id === id);
+        if (marker) {
+          this.held[i] = { point: marker.corners[i], seenAt: now };
+          visibleCorners++;
+        } else if (this.held[i] && now - this.held[i]!.seenAt > HOLD_TIMEOUT_MS) {
+          this.held[i] = null;
+        }
+      });
+
+      if (this.held.some(corner => corner === null)) {
+        return { state: 'searching', visibleCorners, corners: null };
+      }
+
+      const points = this.held.map(corner => corner!.point);
+      this.warp(cv, src, points, output);
+      return {
+        state: visibleCorners === CORNER_MARKER_IDS.length ? 'tracking' : 'holding',
+        visibleCorners,
+        corners: points.map(([x, y]) => [x / scale, y / scale]),
+      };
+    } finally {
+      src.delete();
+    }
+  }
+
+  private warp(cv: any, src: any, points: [number, number][], output: AnyCanvas) {
+    const w = this.outputWidth;
+    const h = this.outputHeight;
+    const srcPts = cv.matFromArray(4, 1, cv.CV_32FC2, points.flat());
+    const dstPts = cv.matFromArray(4, 1, cv.CV_32FC2, [0, 0, w, 0, w, h, 0, h]);
+    const homography = cv.getPerspectiveTransform(srcPts, dstPts);
+    const dst = new cv.Mat();
+    try {
+      cv.warpPerspective(src, dst, homography, new cv.Size(w, h), cv.INTER_LINEAR, cv.BORDER_CONSTANT, new cv.Scalar());
+      showMat(cv, dst, output);
+    } finally {
+      srcPts.delete();
+      dstPts.delete();
+      homography.delete();
+      dst.delete();
+    }
+  }
+}
@@ -0,0 +1,96 @@
+// Camera intrinsic calibration from ChArUco views, plus per-device persistence.
+import type { CharucoBoardSpec, CharucoDetection } from './charuco';
+
+export interface CameraIntrinsics {
+  imageWidth: number;
+  imageHeight: number;
+  // Row-major 3x3 camera matrix [fx 0 cx; 0 fy cy; 0 0 1]
+  cameraMatrix: number[];
+  // OpenCV order: k1, k2, p1, p2, k3
+  distCoeffs: number[];
+  // RMS reprojection error in pixels
+  reprojectionError: number;
+  views: number;
+  board: CharucoBoardSpec;
+  calibratedAt: string;
+}
+
+// Identifies one physical camera: the caster's persistent id plus the camera track label,
+// since front and back cameras of the same phone have different intrinsics.
+export interface CameraIdentity {
+  casterId: string;
+  cameraLabel: string;
+}
+
+export const calibrateIntrinsics = (
+  cv: any,
+  views: CharucoDetection[],
+  imageWidth: number,
+  imageHeight: number,
+  board: CharucoBoardSpec,
+): CameraIntrinsics => {
+  const objectPoints = new cv.MatVector();
+  const imagePoints = new cv.MatVector();
+  const cameraMatrix = new cv.Mat();
+  const distCoeffs = new cv.Mat();
+  const rvecs = new cv.MatVector();
+  const tvecs = new cv.MatVector();
+  const extraMats: any[] = [];
+
+  try {
+    views.forEach(view => {
+      const obj = cv.matFromArray(view.ids.length, 1, cv.CV_32FC3, view.objectPoints.flat());
+      const img = cv.matFromArray(view.ids.length, 1, cv.CV_32FC2, view.imagePoints.flat());
+      objectPoints.push_back(obj);
+      imagePoints.push_back(img);
+      obj.delete();
+      img.delete();
+    });
+
+    const size = new cv.Size(imageWidth, imageHeight);
+    const criteria = new cv.TermCriteria(cv.TERM_CRITERIA_EPS + cv.TERM_CRITERIA_COUNT, 100, 1e-6);
+    let rms: number;
+    if (typeof cv.calibrateCamera === 'function') {
+      rms = cv.calibrateCamera(objectPoints, imagePoints, size, cameraMatrix, distCoeffs, rvecs, tvecs, 0, criteria);
+    } else {
+      // Stock opencv.js only exports the extended variant
+      const stdInt = new cv.Mat();
+      const stdExt = new cv.Mat();
+      const perView = new cv.Mat();
+      extraMats.push(stdInt, stdExt, perView);
+      rms = cv.calibrateCameraExtended(objectPoints, imagePoints, size, cameraMatrix, distCoeffs, rvecs, tvecs, stdInt, stdExt, perView, 0, criteria);
+    }
+
+    return {
+      imageWidth,
+      imageHeight,
+      cameraMatrix: Array.from(cameraMatrix.data64F as Float64Array),
+      distCoeffs: Array.from(distCoeffs.data64F as Float64Array),
+      reprojectionError: rms,
+      views: views.length,
+      board,
+      calibratedAt: new Date().toISOString(),
+    };
+  } finally {
+    [objectPoints, imagePoints, cameraMatrix, distCoeffs, rvecs, tvecs, ...extraMats].forEach(m => m.delete());
+  }
+};
+
+const storageKey = (camera: CameraIdentity) => `calibration:intrinsics:${camera.casterId}:${camera.cameraLabel}`;
+
+export const loadIntrinsics = (camera: CameraIdentity): CameraIntrinsics | null => {
+  try {
+    const raw = localStorage.getItem(storageKey(camera));
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveIntrinsics = (camera: CameraIdentity, intrinsics: CameraIntrinsics) => {
+  try {
+    localStorage.setItem(storageKey(camera), JSON.stringify(intrinsics));
+  } catch (err) {
+    console.error('Could not save calibration:', err);
+  }
+};
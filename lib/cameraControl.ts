@@ -0,0 +1,106 @@
+// Remote control of a caster's camera track. The console sends commands over the caster link and
+// the phone answers with what its camera can do and how it is currently set up. Which of these
+// a phone supports depends on the browser and hardware; missing capabilities are simply omitted.
+
+export interface RangeCapability {
+  min: number;
+  max: number;
+  step?: number;
+}
+
+export interface CameraCapabilities {
+  width?: RangeCapability;
+  height?: RangeCapability;
+  frameRate?: RangeCapability;
+  torch?: boolean;
+  zoom?: RangeCapability;
+  focusMode?: string[];
+  focusDistance?: RangeCapability;
+  exposureMode?: string[];
+  exposureCompensation?: RangeCapability;
+}
+
+export interface CameraSettings {
+  facingMode: 'user' | 'environment';
+  cameraLabel: string;
+  width?: number;
+  height?: number;
+  frameRate?: number;
+  torch?: boolean;
+  zoom?: number;
+  focusMode?: string;
+  focusDistance?: number;
+  exposureMode?: string;
+  exposureCompensation?: number;
+}
+
+export interface CameraState {
+  capabilities: CameraCapabilities;
+  settings: CameraSettings;
+}
+
+// Image controls that map one-to-one onto advanced track constraints
+export type AdjustableSetting = 'torch' | 'zoom' | 'focusMode' | 'focusDistance' | 'exposureMode' | 'exposureCompensation';
+
+export type CameraCommand =
+  | { action: 'switch-camera' }
+  | { action: 'set-format'; width: number; height: number; frameRate: number }
+  | { action: 'set'; setting: AdjustableSetting; value: number | string | boolean };
+
+export const RESOLUTION_PRESETS = [
+  { label: '480p', width: 640, height: 480 },
+  { label: '720p', width: 1280, height: 720 },
+  { label: '1080p', width: 1920, height: 1080 },
+  { label: '4K', width: 3840, height: 2160 },
+];
+
+export const FRAME_RATE_PRESETS = [15, 24, 30, 60];
+
+const RANGE_KEYS = ['width', 'height', 'frameRate', 'zoom', 'focusDistance', 'exposureCompensation'] as const;
+const LIST_KEYS = ['focusMode', 'exposureMode'] as const;
+
+const toRange = (value: any): RangeCapability | undefined =>
+  value && typeof value.min === 'number' && typeof value.max === 'number' && value.max > value.min
+    ? { min: value.min, max: value.max, step: value.step }
+    : undefined;
+
+// Reads capabilities and current settings off a live camera track.
+export const readCameraState = (track: MediaStreamTrack, facingMode: 'user' | 'environment'): CameraState => {
+  // Torch, zoom, focus and exposure are not in the DOM typings yet
+  const caps: any = track.getCapabilities?.() ?? {};
+  const current: any = track.getSettings();
+
+  const capabilities: CameraCapabilities = {};
+  RANGE_KEYS.forEach(key => {
+    const range = toRange(caps[key]);
+    if (range) capabilities[key] = range;
+  });
+  LIST_KEYS.forEach(key => {
+    if (Array.isArray(caps[key]) && caps[key].length > 1) capabilities[key] = caps[key];
+  });
+  if (caps.torch === true || (Array.isArray(caps.torch) && caps.torch.includes(true))) capabilities.torch = true;
+
+  const settings: CameraSettings = { facingMode, cameraLabel: track.label };
+  ([...RANGE_KEYS, ...LIST_KEYS, 'torch'] as const).forEach(key => {
+    if (current[key] !== undefined) (settings as any)[key] = current[key];
+  });
+  return { capabilities, settings };
+};
+
+// Applies a format or image-control command to the track. Camera switches replace the whole
+// track and are handled by the caster itself.
+export const applyCameraCommand = async (track: MediaStreamTrack, command: CameraCommand) => {
+  if (command.action === 'set-format') {
+    await track.applyConstraints({
+      width: { ideal: command.width },
+      height: { ideal: command.height },
+      frameRate: { ideal: command.frameRate },
+    });
+  } else if (command.action === 'set') {
+    const constraint: Record<string, number | string | boolean> = { [command.setting]: command.value };
+    // Manual focus distance / exposure only take effect with the matching manual mode
+    if (command.setting === 'focusDistance') constraint.focusMode = 'manual';
+    if (command.setting === 'exposureCompensation') constraint.exposureMode = 'continuous';
+    await track.applyConstraints({ advanced: [constraint as MediaTrackConstraintSet] });
+  }
+};
@@ -0,0 +1,36 @@
+// Canvases that work both on the page and in the vision worker, which has no DOM. OpenCV.js's
+// own imread/imshow only accept DOM canvases, so Mats go through ImageData here instead.
+
+export type AnyCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+export const createCanvas = (width = 1, height = 1): AnyCanvas => {
+  if (typeof document === 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+// The offscreen context has the same drawing API, so both are typed as the DOM one
+export const context2d = (canvas: AnyCanvas, willReadFrequently = false): CanvasRenderingContext2D =>
+  (canvas as HTMLCanvasElement).getContext('2d', { willReadFrequently })!;
+
+// A new RGBA Mat with the canvas content; the caller deletes it
+export const readMat = (cv: any, canvas: AnyCanvas) =>
+  cv.matFromImageData(context2d(canvas, true).getImageData(0, 0, canvas.width, canvas.height));
+
+// Draws a gray, RGB or RGBA 8-bit Mat into the canvas, resizing it to the Mat
+export const showMat = (cv: any, mat: any, canvas: AnyCanvas) => {
+  const rgba = new cv.Mat();
+  try {
+    const channels = mat.channels();
+    if (channels === 1) cv.cvtColor(mat, rgba, cv.COLOR_GRAY2RGBA);
+    else if (channels === 3) cv.cvtColor(mat, rgba, cv.COLOR_RGB2RGBA);
+    else mat.copyTo(rgba);
+    canvas.width = rgba.cols;
+    canvas.height = rgba.rows;
+    context2d(canvas).putImageData(new ImageData(new Uint8ClampedArray(rgba.data), rgba.cols, rgba.rows), 0, 0);
+  } finally {
+    rgba.delete();
+  }
+};
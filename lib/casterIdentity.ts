@@ -0,0 +1,16 @@
+const CASTER_ID_KEY = 'casterId';
+
+// A random id that stays the same for this phone/browser across reloads, so per-device data
+// such as calibration can be looked up again.
+export const getCasterId = (): string => {
+  try {
+    let id = localStorage.getItem(CASTER_ID_KEY);
+    if (!id) {
+      id = crypto.randomUUID();
+      localStorage.setItem(CASTER_ID_KEY, id);
+    }
+    return id;
+  } catch {
+    return 'unknown';
+  }
+};
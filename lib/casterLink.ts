@@ -0,0 +1,88 @@
+import type { DataConnection } from 'peerjs';
+import type { CameraCommand, CameraState } from './cameraControl';
+
+// Control messages between a caster and the console, sent over a PeerJS data connection that
+// runs next to the media call. The caster pings, the console answers; either side treats a
+// silent link as dead. The console can also ask the caster to redial when its video froze, and
+// drive the phone's camera, which reports its capabilities and settings back. Before anything
+// else the console checks that the caster knows the pairing PIN (see pairing.ts), then offers
+// its slots; the caster claims one and only then places its media call.
+export interface SlotOffer {
+  id: string;
+  label: string;
+  taken: boolean;
+}
+
+export type LinkMessage =
+  | { type: 'ping'; sentAt: number }
+  | { type: 'pong'; sentAt: number }
+  | { type: 'restart'; reason: string }
+  | { type: 'camera-command'; command: CameraCommand }
+  | { type: 'camera-state'; state: CameraState; error?: string }
+  | { type: 'auth-challenge'; nonce: string }
+  | { type: 'auth-response'; proofs: string[] }
+  | { type: 'auth-ok'; token: string }
+  | { type: 'auth-failed'; reason: string }
+  | { type: 'slots'; slots: SlotOffer[] }
+  // null takes the next free slot
+  | { type: 'claim-slot'; slotId: string | null }
+  | { type: 'slot-assigned'; slotId: string; label: string }
+  | { type: 'slot-refused'; reason: string };
+
+const LINK_MESSAGE_TYPES = [
+  'ping', 'pong', 'restart', 'camera-command', 'camera-state',
+  'auth-challenge', 'auth-response', 'auth-ok', 'auth-failed',
+  'slots', 'claim-slot', 'slot-assigned', 'slot-refused',
+];
+
+export const HEARTBEAT_INTERVAL_MS = 2000;
+export const HEARTBEAT_TIMEOUT_MS = 6000;
+
+const isLinkMessage = (data: any): data is LinkMessage => LINK_MESSAGE_TYPES.includes(data?.type);
+
+export const sendLinkMessage = (conn: DataConnection, message: LinkMessage) => {
+  if (conn.open) conn.send(message);
+};
+
+interface HeartbeatOptions {
+  // The caster sends pings; the console only answers them
+  sendPings: boolean;
+  onTimeout: () => void;
+  onMessage?: (message: LinkMessage) => void;
+}
+
+// Watches a data connection for liveness. `onTimeout` fires once when nothing arrived for
+// HEARTBEAT_TIMEOUT_MS, counted from the moment the connection opens. Returns a stop function.
+export const watchHeartbeat = (conn: DataConnection, { sendPings, onTimeout, onMessage }: HeartbeatOptions): () => void => {
+  let lastSeen = Date.now();
+  let stopped = false;
+
+  const onOpen = () => { lastSeen = Date.now(); };
+  const onData = (data: unknown) => {
+    if (!isLinkMessage(data)) return;
+    lastSeen = Date.now();
+    if (data.type === 'ping') sendLinkMessage(conn, { type: 'pong', sentAt: data.sentAt });
+    onMessage?.(data);
+  };
+
+  const stop = () => {
+    stopped = true;
+    clearInterval(timer);
+    conn.off('open', onOpen);
+    conn.off('data', onData);
+  };
+
+  const timer = setInterval(() => {
+    if (stopped) return;
+    if (Date.now() - lastSeen > HEARTBEAT_TIMEOUT_MS) {
+      stop();
+      onTimeout();
+      return;
+    }
+    if (sendPings) sendLinkMessage(conn, { type: 'ping', sentAt: Date.now() });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  conn.on('open', onOpen);
+  conn.on('data', onData);
+  return stop;
+};
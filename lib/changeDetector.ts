@@ -0,0 +1,150 @@
+// Decides when the writing on a board changed, as opposed to someone walking past. Frames are
+// compared on a small grayscale copy: while anything moves nothing is decided; once the view
+// has been still for a moment it is compared with the last keyframe. Thin, local differences are
+// strokes or erasures. A large difference is taken as someone standing in front of the board and
+// only accepted if it stays put for a long time (camera moved, lights changed).
+import { createCanvas, context2d } from './canvas';
+
+export interface ChangeRegion {
+  // Fraction of the view that differs from the previous keyframe
+  fraction: number;
+  // Bounding box of the difference, normalized to 0..1: [x, y, width, height]
+  bbox: [number, number, number, number];
+}
+
+export interface DetectedChange extends ChangeRegion {
+  // First keyframe of a source; there was nothing to compare it with
+  initial: boolean;
+  // 1 where the view changed, at the analysis resolution
+  mask: Uint8Array;
+  maskWidth: number;
+  maskHeight: number;
+}
+
+const ANALYSIS_WIDTH = 160;
+// Brightness difference (0-255) that counts as a changed pixel, after removing global exposure shifts
+const PIXEL_THRESHOLD = 24;
+// Consecutive samples differing in fewer pixels than this count as "nothing moving"
+const STILL_FRACTION = 0.002;
+const STABLE_MS = 1500;
+const MIN_CHANGE_FRACTION = 0.0015;
+const MAX_CONTENT_CHANGE_FRACTION = 0.2;
+const LARGE_CHANGE_ACCEPT_MS = 30000;
+const HIGHLIGHT_COLOR = 'rgba(244, 63, 94, 0.55)';
+
+export class ChangeDetector {
+  private canvas = createCanvas();
+  private ctx = context2d(this.canvas, true);
+  private previous: Float32Array | null = null;
+  private reference: Float32Array | null = null;
+  private stillSince: number | null = null;
+  private largeChangeSince: number | null = null;
+
+  reset() {
+    this.previous = null;
+    this.reference = null;
+    this.stillSince = null;
+    this.largeChangeSince = null;
+  }
+
+  // Looks at the current frame of `source`; returns a change when a new keyframe should be taken.
+  process(source: CanvasImageSource, sourceWidth: number, sourceHeight: number, now: number): DetectedChange | null {
+    const width = ANALYSIS_WIDTH;
+    const height = Math.max(1, Math.round(sourceHeight * ANALYSIS_WIDTH / sourceWidth));
+    if (this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas.width = width;
+      this.canvas.height = height;
+      this.reset();
+    }
+    this.ctx.drawImage(source, 0, 0, width, height);
+    const gray = toNormalizedGray(this.ctx.getImageData(0, 0, width, height).data);
+
+    const motion = this.previous ? diffFraction(gray, this.previous) : 1;
+    this.previous = gray;
+    if (motion > STILL_FRACTION) {
+      this.stillSince = null;
+      return null;
+    }
+    this.stillSince ??= now;
+    if (now - this.stillSince < STABLE_MS) return null;
+
+    if (!this.reference) {
+      this.reference = gray;
+      return { initial: true, fraction: 0, bbox: [0, 0, 1, 1], mask: new Uint8Array(width * height), maskWidth: width, maskHeight: height };
+    }
+
+    const mask = new Uint8Array(width * height);
+    let changed = 0;
+    let minX = width, minY = height, maxX = -1, maxY = -1;
+    for (let i = 0; i < gray.length; i++) {
+      if (Math.abs(gray[i] - this.reference[i]) <= PIXEL_THRESHOLD) continue;
+      mask[i] = 1;
+      changed++;
+      const x = i % width;
+      const y = (i - x) / width;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+    const fraction = changed / gray.length;
+    if (fraction < MIN_CHANGE_FRACTION) {
+      this.largeChangeSince = null;
+      return null;
+    }
+    if (fraction > MAX_CONTENT_CHANGE_FRACTION) {
+      this.largeChangeSince ??= now;
+      if (now - this.largeChangeSince < LARGE_CHANGE_ACCEPT_MS) return null;
+    }
+
+    this.largeChangeSince = null;
+    this.reference = gray;
+    return {
+      initial: false,
+      fraction,
+      bbox: [minX / width, minY / height, (maxX - minX + 1) / width, (maxY - minY + 1) / height],
+      mask,
+      maskWidth: width,
+      maskHeight: height,
+    };
+  }
+}
+
+// Luma with the frame's mean subtracted, so auto exposure drifting does not look like a change
+const toNormalizedGray = (rgba: Uint8ClampedArray): Float32Array => {
+  const gray = new Float32Array(rgba.length / 4);
+  let sum = 0;
+  for (let i = 0, j = 0; j < gray.length; i += 4, j++) {
+    const v = 0.299 * rgba[i] + 0.587 * rgba[i + 1] + 0.114 * rgba[i + 2];
+    gray[j] = v;
+    sum += v;
+  }
+  const mean = sum / gray.length;
+  for (let j = 0; j < gray.length; j++) gray[j] -= mean;
+  return gray;
+};
+
+const diffFraction = (a: Float32Array, b: Float32Array) => {
+  let changed = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (Math.abs(a[i] - b[i]) > PIXEL_THRESHOLD) changed++;
+  }
+  return changed / a.length;
+};
+
+// Tints the changed pixels and outlines their bounding box, on a context of any size
+export const drawChangeHighlight = (ctx: CanvasRenderingContext2D, change: DetectedChange, width: number, height: number) => {
+  const cellW = width / change.maskWidth;
+  const cellH = height / change.maskHeight;
+  ctx.fillStyle = HIGHLIGHT_COLOR;
+  for (let i = 0; i < change.mask.length; i++) {
+    if (!change.mask[i]) continue;
+    const x = i % change.maskWidth;
+    const y = (i - x) / change.maskWidth;
+    ctx.fillRect(x * cellW, y * cellH, Math.ceil(cellW), Math.ceil(cellH));
+  }
+  const [bx, by, bw, bh] = change.bbox;
+  ctx.strokeStyle = '#f43f5e';
+  ctx.lineWidth = 2;
+  ctx.strokeRect(bx * width, by * height, bw * width, bh * height);
+};
@@ -0,0 +1,180 @@
+// ChArUco calibration board: layout, printable rendering and corner detection.
+// The layout matches OpenCV's CharucoBoard (non-legacy): square (0, 0) is black, markers sit in
+// the white squares numbered row by row, and chessboard corner ids run row by row over the
+// inner corners. Corners are interpolated from the detected markers through a homography, so
+// only plain marker detection is needed from the OpenCV.js build.
+import { detectMarkers, renderMarker, DetectedMarker } from './aruco';
+
+export interface CharucoBoardSpec {
+  squaresX: number;
+  squaresY: number;
+  // Physical sizes in meters, used for the object points
+  squareLength: number;
+  markerLength: number;
+  dictionary: string;
+}
+
+export const DEFAULT_CHARUCO_BOARD: CharucoBoardSpec = {
+  squaresX: 7,
+  squaresY: 5,
+  squareLength: 0.035,
+  markerLength: 0.026,
+  // A different dictionary than the board corner markers so the two never get confused
+  dictionary: 'DICT_5X5_100',
+};
+
+export interface CharucoDetection {
+  ids: number[];
+  imagePoints: [number, number][];
+  objectPoints: [number, number, number][];
+  markers: DetectedMarker[];
+}
+
+interface MarkerPlacement {
+  id: number;
+  squareX: number;
+  squareY: number;
+}
+
+const markerPlacements = (spec: CharucoBoardSpec): MarkerPlacement[] => {
+  const placements: MarkerPlacement[] = [];
+  for (let y = 0; y < spec.squaresY; y++) {
+    for (let x = 0; x < spec.squaresX; x++) {
+      if (y % 2 !== x % 2) placements.push({ id: placements.length, squareX: x, squareY: y });
+    }
+  }
+  return placements;
+};
+
+// Board-plane corners (TL, TR, BR, BL) of a placed marker, in meters
+const markerBoardCorners = (spec: CharucoBoardSpec, p: MarkerPlacement): [number, number][] => {
+  const margin = (spec.squareLength - spec.markerLength) / 2;
+  const x0 = p.squareX * spec.squareLength + margin;
+  const y0 = p.squareY * spec.squareLength + margin;
+  const m = spec.markerLength;
+  return [[x0, y0], [x0 + m, y0], [x0 + m, y0 + m], [x0, y0 + m]];
+};
+
+export const charucoCornerCount = (spec: CharucoBoardSpec) => (spec.squaresX - 1) * (spec.squaresY - 1);
+
+// Board-plane position of chessboard corner `id`, in meters
+export const charucoCornerPosition = (spec: CharucoBoardSpec, id: number): [number, number, number] => {
+  const x = id % (spec.squaresX - 1);
+  const y = Math.floor(id / (spec.squaresX - 1));
+  return [(x + 1) * spec.squareLength, (y + 1) * spec.squareLength, 0];
+};
+
+// Draws a printable board with `pixelsPerSquare` resolution and a white quiet zone.
+export const drawCharucoBoard = (cv: any, canvas: HTMLCanvasElement, spec: CharucoBoardSpec, pixelsPerSquare = 120) => {
+  const quietZone = pixelsPerSquare / 2;
+  canvas.width = spec.squaresX * pixelsPerSquare + quietZone * 2;
+  canvas.height = spec.squaresY * pixelsPerSquare + quietZone * 2;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  ctx.fillStyle = '#000';
+  for (let y = 0; y < spec.squaresY; y++) {
+    for (let x = 0; x < spec.squaresX; x++) {
+      if (y % 2 === x % 2) {
+        ctx.fillRect(quietZone + x * pixelsPerSquare, quietZone + y * pixelsPerSquare, pixelsPerSquare, pixelsPerSquare);
+      }
+    }
+  }
+
+  const markerPixels = Math.round(pixelsPerSquare * spec.markerLength / spec.squareLength);
+  const offset = (pixelsPerSquare - markerPixels) / 2;
+  markerPlacements(spec).forEach(p => {
+    const image = renderMarker(cv, p.id, markerPixels, spec.dictionary);
+    ctx.putImageData(image, Math.round(quietZone + p.squareX * pixelsPerSquare + offset), Math.round(quietZone + p.squareY * pixelsPerSquare + offset));
+  });
+};
+
+// Finds the ChArUco chessboard corners visible in an RGBA or grayscale Mat.
+export const detectCharuco = (cv: any, image: any, spec: CharucoBoardSpec): CharucoDetection => {
+  const placements = markerPlacements(spec);
+  const markers = detectMarkers(cv, image, spec.dictionary).filter(m => m.id < placements.length);
+  const empty: CharucoDetection = { ids: [], imagePoints: [], objectPoints: [], markers };
+  // One marker gives a homography, but two keep it from extrapolating wildly
+  if (markers.length < 2) return empty;
+
+  const boardPts: number[] = [];
+  const imagePts: number[] = [];
+  markers.forEach(marker => {
+    markerBoardCorners(spec, placements[marker.id]).forEach(([x, y], i) => {
+      boardPts.push(x, y);
+      imagePts.push(marker.corners[i][0], marker.corners[i][1]);
+    });
+  });
+
+  const srcMat = cv.matFromArray(boardPts.length / 2, 1, cv.CV_32FC2, boardPts);
+  const dstMat = cv.matFromArray(imagePts.length / 2, 1, cv.CV_32FC2, imagePts);
+  const homography = cv.findHomography(srcMat, dstMat);
+  srcMat.delete();
+  dstMat.delete();
+  if (homography.empty()) {
+    homography.delete();
+    return empty;
+  }
+  const h = homography.data64F;
+  homography.delete();
+
+  // Only trust corners that touch at least one detected marker
+  const detectedIds = new Set(markers.map(m => m.id));
+  const markerAt = new Map(placements.map(p => [`${p.squareX},${p.squareY}`, p.id]));
+  const ids: number[] = [];
+  const projected: number[] = [];
+  for (let id = 0; id < charucoCornerCount(spec); id++) {
+    const cx = id % (spec.squaresX - 1);
+    const cy = Math.floor(id / (spec.squaresX - 1));
+    const touching = [[cx, cy], [cx + 1, cy], [cx, cy + 1], [cx + 1, cy + 1]]
+      .map(([sx, sy]) => markerAt.get(`${sx},${sy}`))
+      .some(markerId => markerId !== undefined && detectedIds.has(markerId));
+    if (!touching) continue;
+
+    const [bx, by] = charucoCornerPosition(spec, id);
+    const w = h[6] * bx + h[7] * by + h[8];
+    const px = (h[0] * bx + h[1] * by + h[2]) / w;
+    const py = (h[3] * bx + h[4] * by + h[5]) / w;
+    if (px < 0 || py < 0 || px >= image.cols || py >= image.rows) continue;
+    ids.push(id);
+    projected.push(px, py);
+  }
+  if (ids.length === 0) return empty;
+
+  // Snap the projected corners onto the actual chessboard corners
+  const gray = new cv.Mat();
+  const corners = cv.matFromArray(ids.length, 1, cv.CV_32FC2, projected);
+  try {
+    if (image.channels() === 1) image.copyTo(gray);
+    else cv.cvtColor(image, gray, cv.COLOR_RGBA2GRAY);
+    const criteria = new cv.TermCriteria(cv.TERM_CRITERIA_EPS + cv.TERM_CRITERIA_COUNT, 30, 0.01);
+    cv.cornerSubPix(gray, corners, new cv.Size(5, 5), new cv.Size(-1, -1), criteria);
+    const refined = corners.data32F;
+    return {
+      ids,
+      imagePoints: ids.map((_, i) => [refined[i * 2], refined[i * 2 + 1]]),
+      objectPoints: ids.map(id => charucoCornerPosition(spec, id)),
+      markers,
+    };
+  } finally {
+    gray.delete();
+    corners.delete();
+  }
+};
+
+// True when `view` shows the board somewhere new: for every earlier view, the corners they share
+// moved on average by more than `minShift` of the image width (or too few corners are shared).
+export const isNovelView = (view: CharucoDetection, views: CharucoDetection[], imageWidth: number, minShift = 0.05) =>
+  views.every(other => {
+    const shifts: number[] = [];
+    view.ids.forEach((id, i) => {
+      const j = other.ids.indexOf(id);
+      if (j < 0) return;
+      const [x1, y1] = view.imagePoints[i];
+      const [x2, y2] = other.imagePoints[j];
+      shifts.push(Math.hypot(x1 - x2, y1 - y2));
+    });
+    if (shifts.length < 4) return true;
+    return shifts.reduce((a, b) => a + b, 0) / shifts.length > imageWidth * minShift;
+  });
@@ -0,0 +1,139 @@
+// WebRTC statistics for the phone calls feeding console slots. Each call's RTCPeerConnection is
+// polled once a second; rates (fps, bitrate, loss) are computed over that interval. Every sample is
+// also forwarded to the Python bridge so it can be logged next to the frame results.
+import { frameBridge } from './frameBridge';
+
+export interface ConnectionStats {
+  // Epoch ms
+  sampledAt: number;
+  width: number | null;
+  height: number | null;
+  // Frames decoded per second
+  fps: number | null;
+  bitrateKbps: number | null;
+  // Lost packets as a share of the packets expected during the last interval, 0..100
+  packetLossPercent: number | null;
+  packetsLost: number;
+  jitterMs: number | null;
+  rttMs: number | null;
+  codec: string | null;
+  // ICE candidate types of the selected pair: 'host', 'srflx', 'prflx' or 'relay'
+  localCandidateType: string | null;
+  remoteCandidateType: string | null;
+  protocol: string | null;
+}
+
+const POLL_INTERVAL_MS = 1000;
+
+// Counters from the previous poll, for the per-interval rates
+interface Counters {
+  timestamp: number;
+  bytesReceived: number;
+  framesDecoded: number;
+  packetsReceived: number;
+  packetsLost: number;
+}
+
+const perSecond = (delta: number, ms: number) => ms > 0 ? (delta * 1000) / ms : null;
+
+const readStats = (report: RTCStatsReport, previous: Counters | null): { stats: ConnectionStats; counters: Counters | null } => {
+  let inbound: any = null;
+  let selectedPairId: string | null = null;
+  report.forEach((entry: any) => {
+    if (entry.type === 'inbound-rtp' && entry.kind === 'video') inbound = entry;
+    if (entry.type === 'transport' && entry.selectedCandidatePairId) selectedPairId = entry.selectedCandidatePairId;
+  });
+  // Firefox has no transport stats; its selected pair is flagged instead
+  let pair: any = selectedPairId ? report.get(selectedPairId) : null;
+  if (!pair) report.forEach((entry: any) => { if (entry.type === 'candidate-pair' && (entry.selected || entry.nominated) && entry.state === 'succeeded') pair = entry; });
+  const local = pair ? report.get(pair.localCandidateId) : null;
+  const remote = pair ? report.get(pair.remoteCandidateId) : null;
+  const codec = inbound?.codecId ? report.get(inbound.codecId) : null;
+
+  const counters: Counters | null = inbound ? {
+    timestamp: inbound.timestamp,
+    bytesReceived: inbound.bytesReceived ?? 0,
+    framesDecoded: inbound.framesDecoded ?? 0,
+    packetsReceived: inbound.packetsReceived ?? 0,
+    packetsLost: inbound.packetsLost ?? 0,
+  } : null;
+
+  let fps: number | null = inbound?.framesPerSecond ?? null;
+  let bitrateKbps: number | null = null;
+  let packetLossPercent: number | null = null;
+  if (counters && previous) {
+    const elapsed = counters.timestamp - previous.timestamp;
+    fps ??= perSecond(counters.framesDecoded - previous.framesDecoded, elapsed);
+    const bytesPerSecond = perSecond(counters.bytesReceived - previous.bytesReceived, elapsed);
+    bitrateKbps = bytesPerSecond === null ? null : (bytesPerSecond * 8) / 1000;
+    const lost = counters.packetsLost - previous.packetsLost;
+    const expected = lost + counters.packetsReceived - previous.packetsReceived;
+    packetLossPercent = expected > 0 ? Math.max(0, (lost * 100) / expected) : 0;
+  }
+
+  return {
+    counters,
+    stats: {
+      sampledAt: Date.now(),
+      width: inbound?.frameWidth ?? null,
+      height: inbound?.frameHeight ?? null,
+      fps,
+      bitrateKbps,
+      packetLossPercent,
+      packetsLost: counters?.packetsLost ?? 0,
+      jitterMs: typeof inbound?.jitter === 'number' ? inbound.jitter * 1000 : null,
+      rttMs: typeof pair?.currentRoundTripTime === 'number' ? pair.currentRoundTripTime * 1000 : null,
+      codec: codec?.mimeType ? String(codec.mimeType).replace(/^video\//, '') : null,
+      localCandidateType: local?.candidateType ?? null,
+      remoteCandidateType: remote?.candidateType ?? null,
+      protocol: local?.protocol ?? null,
+    },
+  };
+};
+
+class ConnectionStatsMonitor {
+  private stats = new Map<string, ConnectionStats>();
+  private listeners = new Set<() => void>();
+
+  // Polls a slot's peer connection until the returned function is called.
+  watch(slotId: string, pc: RTCPeerConnection): () => void {
+    let previous: Counters | null = null;
+    let stopped = false;
+
+    const poll = async () => {
+      try {
+        const { stats, counters } = readStats(await pc.getStats(), previous);
+        if (stopped) return;
+        previous = counters;
+        this.stats.set(slotId, stats);
+        this.emit();
+        frameBridge.sendStats(slotId, stats);
+      } catch (err) {
+        console.warn(`Could not read WebRTC stats for ${slotId}:`, err);
+      }
+    };
+    const intervalId = setInterval(poll, POLL_INTERVAL_MS);
+    poll();
+
+    return () => {
+      stopped = true;
+      clearInterval(intervalId);
+      if (this.stats.delete(slotId)) this.emit();
+    };
+  }
+
+  getStats(slotId: string): ConnectionStats | null {
+    return this.stats.get(slotId) ?? null;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private emit() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const connectionStats = new ConnectionStatsMonitor();
@@ -0,0 +1,516 @@
+// The console's single PeerJS identity. Its code and pairing PIN persist across reloads, so a
+// QR code stays valid. Every phone pairs over a control link, claims a slot (a specific one or
+// the next free one) and then places its media call, which is routed to the claimed slot.
+import type { Peer, MediaConnection, DataConnection } from 'peerjs';
+import { createPeer } from './peerConfig';
+import { watchHeartbeat, sendLinkMessage, LinkMessage, SlotOffer } from './casterLink';
+import { authenticateCaster, generatePairingSecret, generateResumeToken } from './pairing';
+import { frameSync } from './frameSync';
+import { connectionStats } from './connectionStats';
+import { QUALITY_PROFILES, isQualityProfileId, preferCodecs } from './qualityProfiles';
+import type { CameraCommand, CameraState } from './cameraControl';
+import type { CasterCallMetadata, ConnectionStatus } from '../types';
+
+export type ConsolePeerStatus = 'initializing' | 'ready' | 'error';
+
+export interface ConsolePeerInfo {
+  status: ConsolePeerStatus;
+  // Console code phones dial; null until known
+  id: string | null;
+  secret: string;
+  error: string | null;
+  // Last rejected pairing attempt, until a phone pairs successfully
+  warning: string | null;
+}
+
+export interface SlotConnection {
+  status: ConnectionStatus;
+  stream: MediaStream | null;
+  caster: CasterCallMetadata | null;
+  cameraState: CameraState | null;
+  cameraError: string | null;
+}
+
+export interface RemoteSlot {
+  id: string;
+  label: string;
+}
+
+interface SlotState extends SlotConnection {
+  // Phone the slot belongs to, also while it is reconnecting
+  casterId: string | null;
+  streamingSince: number;
+  giveUpTimer: ReturnType<typeof setTimeout> | null;
+}
+
+// A phone whose control link passed pairing
+interface PairedCaster {
+  peerId: string;
+  link: DataConnection;
+  // casterId is the one its resume token was issued to, or the claimed one for a PIN-only pairing
+  metadata: CasterCallMetadata;
+  // Proved the resume token bound to its casterId, so it may take back slots held under that id
+  resumed: boolean;
+  slotId: string | null;
+  call: MediaConnection | null;
+  stopHeartbeat: () => void;
+  // Stops polling the call's WebRTC stats
+  stopStats: () => void;
+}
+
+interface ResumeToken {
+  token: string;
+  casterId: string;
+}
+
+const ID_STORAGE_KEY = 'consolePeerId';
+const SECRET_STORAGE_KEY = 'consolePairingPin';
+const TOKENS_STORAGE_KEY = 'consoleResumeTokens';
+
+// How long a slot waits for its caster to redial before it is free again
+const RECONNECT_GIVE_UP_MS = 30000;
+// No new frame for this long while connected counts as a frozen camera
+const FROZEN_AFTER_MS = 4000;
+// After a reload the signaling server can hold on to our id for a while; retry it before giving it up
+const ID_RETRY_MS = 3000;
+const MAX_ID_ATTEMPTS = 5;
+const CLOSE_DELAY_MS = 1000;
+const MAX_RESUME_TOKENS = 50;
+
+// --- Words for memorable ID generation ---
+const ADJECTIVES = ['agile', 'bright', 'calm', 'desert', 'eager', 'fancy', 'giant', 'happy', 'icy', 'jolly', 'keen', 'lucky', 'magic', 'noble', 'ocean', 'proud', 'quick', 'regal', 'shiny', 'tidal', 'urban', 'vast', 'wild', 'young', 'zesty'];
+const NOUNS = ['river', 'stone', 'star', 'comet', 'forest', 'planet', 'ocean', 'desert', 'meadow', 'island', 'volcano', 'glacier', 'canyon', 'valley', 'plateau', 'geyser', 'nebula', 'galaxy', 'quasar', 'cluster', 'lagoon', 'summit', 'delta', 'fjord', 'reef'];
+
+const generateReadableId = () => {
+  const adj = ADJECTIVES[Math.floor(Math.random() * ADJECTIVES.length)];
+  const noun = NOUNS[Math.floor(Math.random() * NOUNS.length)];
+  const num = Math.floor(Math.random() * 90) + 10;
+  return `${adj}-${noun}-${num}`;
+};
+
+const IDLE_SLOT: SlotConnection = { status: 'waiting', stream: null, caster: null, cameraState: null, cameraError: null };
+
+class ConsolePeer {
+  private peer: Peer | null = null;
+  private users = 0;
+  private idAttempts = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private closeTimer: ReturnType<typeof setTimeout> | null = null;
+  private frozenTimer: ReturnType<typeof setInterval> | null = null;
+  private visibleSince = Date.now();
+  private peerId: string;
+  private tokens: ResumeToken[];
+  private info: ConsolePeerInfo;
+  private slots: RemoteSlot[] = [];
+  private slotStates = new Map<string, SlotState>();
+  private casters = new Map<string, PairedCaster>();
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    this.peerId = readStored(ID_STORAGE_KEY) || generateReadableId();
+    const secret = readStored(SECRET_STORAGE_KEY) || generatePairingSecret();
+    writeStored(ID_STORAGE_KEY, this.peerId);
+    writeStored(SECRET_STORAGE_KEY, secret);
+    this.tokens = readStoredTokens();
+    this.info = { status: 'initializing', id: null, secret, error: null, warning: null };
+  }
+
+  // Keeps the peer open while at least one caller needs it. Returns a release function.
+  start(): () => void {
+    this.users++;
+    if (this.closeTimer) {
+      clearTimeout(this.closeTimer);
+      this.closeTimer = null;
+    } else if (this.users === 1) {
+      this.frozenTimer = setInterval(() => this.checkFrozen(), 1000);
+      document.addEventListener('visibilitychange', this.onVisibilityChange);
+      this.open();
+    }
+    return () => {
+      this.users--;
+      // Linger a moment, so an immediate remount (React strict mode) keeps the code instead of
+      // racing the signaling server for it
+      if (this.users === 0) {
+        this.closeTimer = setTimeout(() => {
+          this.closeTimer = null;
+          this.close();
+        }, CLOSE_DELAY_MS);
+      }
+    };
+  }
+
+  getInfo(): ConsolePeerInfo {
+    return this.info;
+  }
+
+  getSlot(slotId: string): SlotConnection {
+    return this.slotStates.get(slotId) ?? IDLE_SLOT;
+  }
+
+  // The slots phones may stream into, in display order. Phones in slots that are gone are told
+  // to pick another one.
+  setSlots(slots: RemoteSlot[]) {
+    const removed = this.slots.filter(slot => !slots.some(next => next.id === slot.id));
+    this.slots = slots;
+    removed.forEach(slot => {
+      const caster = this.casterInSlot(slot.id);
+      if (caster) {
+        this.hangUp(caster);
+        caster.slotId = null;
+        sendLinkMessage(caster.link, { type: 'slot-refused', reason: 'The console removed this slot.' });
+      }
+      this.resetSlot(slot.id);
+    });
+    this.offerSlots();
+  }
+
+  sendCameraCommand(slotId: string, command: CameraCommand) {
+    const caster = this.casterInSlot(slotId);
+    if (caster) sendLinkMessage(caster.link, { type: 'camera-command', command });
+  }
+
+  // Cuts off the phone in a slot for good: its resume token is dropped and the PIN replaced, so
+  // neither it nor old QR codes get back in. Other paired phones keep their tokens.
+  revoke(slotId: string) {
+    const state = this.slotStates.get(slotId);
+    const caster = this.casterInSlot(slotId);
+    if (caster) {
+      sendLinkMessage(caster.link, { type: 'auth-failed', reason: 'The console revoked this pairing.' });
+      this.removeCaster(caster);
+    }
+    if (state?.casterId) {
+      const casterId = state.casterId;
+      this.tokens = this.tokens.filter(token => token.casterId !== casterId);
+      writeStored(TOKENS_STORAGE_KEY, JSON.stringify(this.tokens));
+    }
+    this.resetSlot(slotId);
+    this.offerSlots();
+    this.regenerateSecret();
+  }
+
+  // New PIN; links and QR codes with the old one stop working
+  regenerateSecret() {
+    const secret = generatePairingSecret();
+    writeStored(SECRET_STORAGE_KEY, secret);
+    this.setInfo({ secret });
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private open() {
+    const p = createPeer(this.peerId);
+    this.peer = p;
+
+    p.on('open', id => {
+      this.idAttempts = 0;
+      this.setInfo({ status: 'ready', id, error: null });
+    });
+
+    // Keep the code reachable for redials after losing the signaling server
+    p.on('disconnected', () => {
+      setTimeout(() => this.peer === p && p.disconnected && !p.destroyed && p.reconnect(), 1000);
+    });
+
+    p.on('connection', conn => this.pair(conn));
+    p.on('call', call => this.route(call));
+
+    p.on('error', err => {
+      if (this.peer !== p) return;
+      if (err.type === 'unavailable-id') {
+        // Either the server still remembers us from before a reload, or another console tab
+        // really has this code. Give it a few tries, then move to a new code.
+        p.destroy();
+        this.peer = null;
+        if (++this.idAttempts >= MAX_ID_ATTEMPTS) {
+          console.warn(`Console code ${this.peerId} stays taken; switching to a new one.`);
+          this.peerId = generateReadableId();
+          this.idAttempts = 0;
+          writeStored(ID_STORAGE_KEY, this.peerId);
+        }
+        this.retryTimer = setTimeout(() => this.open(), ID_RETRY_MS);
+      } else if (err.type === 'network' || err.type === 'disconnected') {
+        console.warn('Console lost the signaling server, reconnecting...');
+      } else {
+        console.error('Console PeerJS error:', err);
+        this.setInfo({ status: 'error', error: 'A connection error occurred. Try refreshing.' });
+      }
+    });
+  }
+
+  private close() {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    if (this.frozenTimer) clearInterval(this.frozenTimer);
+    document.removeEventListener('visibilitychange', this.onVisibilityChange);
+    [...this.casters.values()].forEach(caster => this.removeCaster(caster));
+    [...this.slotStates.keys()].forEach(slotId => this.resetSlot(slotId));
+    this.peer?.destroy();
+    this.peer = null;
+    this.setInfo({ status: 'initializing', id: null });
+  }
+
+  private onVisibilityChange = () => {
+    if (!document.hidden) this.visibleSince = Date.now();
+  };
+
+  private pair(conn: DataConnection) {
+    // The claimed id only picks the resume token the phone may prove besides the PIN
+    const claimedId: string = typeof conn.metadata?.casterId === 'string' && conn.metadata.casterId ? conn.metadata.casterId : conn.peer;
+    const known = this.tokens.find(token => token.casterId === claimedId);
+    const secrets = known ? [this.info.secret, known.token] : [this.info.secret];
+    authenticateCaster(conn, secrets).then(({ rejection, proven }) => {
+      if (!this.peer) return conn.close();
+      if (rejection !== null) {
+        console.warn(`Rejected camera ${conn.peer} (${rejection})`);
+        this.setInfo({ warning: `Rejected a camera that could not prove the PIN: ${rejection}` });
+        return;
+      }
+
+      // Knowing the PIN does not prove which phone this is (a reloaded phone has lost its token),
+      // so a PIN-only pairing gets a new token in place of the old one and no claim on the old
+      // one's slots
+      const resumed = !!known && proven.includes(known.token);
+      const metadata: CasterCallMetadata = {
+        casterId: resumed ? known.casterId : claimedId,
+        cameraLabel: typeof conn.metadata?.cameraLabel === 'string' ? conn.metadata.cameraLabel : '',
+        qualityProfile: isQualityProfileId(conn.metadata?.qualityProfile) ? conn.metadata.qualityProfile : undefined,
+      };
+      // A redial from the same phone replaces its previous link; its slot stays reserved
+      const previous = this.casters.get(conn.peer);
+      if (previous) this.connectionLost(previous, 'phone redialed');
+
+      const caster: PairedCaster = { peerId: conn.peer, link: conn, metadata, resumed, slotId: null, call: null, stopHeartbeat: () => {}, stopStats: () => {} };
+      this.casters.set(conn.peer, caster);
+      caster.stopHeartbeat = watchHeartbeat(conn, {
+        sendPings: false,
+        onTimeout: () => this.connectionLost(caster, 'heartbeat timed out'),
+        onMessage: message => this.handleMessage(caster, message),
+      });
+      conn.on('close', () => this.connectionLost(caster, 'control link closed'));
+
+      sendLinkMessage(conn, { type: 'auth-ok', token: resumed ? known.token : this.issueToken(metadata.casterId) });
+      sendLinkMessage(conn, { type: 'slots', slots: this.slotOffers() });
+      this.setInfo({ warning: null });
+    });
+  }
+
+  private handleMessage(caster: PairedCaster, message: LinkMessage) {
+    if (this.casters.get(caster.peerId) !== caster) return;
+    if (message.type === 'claim-slot') {
+      this.claim(caster, message.slotId);
+    } else if (message.type === 'camera-state' && caster.slotId) {
+      this.updateSlot(caster.slotId, { cameraState: message.state, cameraError: message.error ?? null });
+    }
+  }
+
+  private claim(caster: PairedCaster, wanted: string | null) {
+    const { casterId } = caster.metadata;
+    // Slots held under this caster's id: the one it claimed on this link, and for a resumed
+    // caster also the ones it held before
+    const holds = (slotId: string) =>
+      this.slotStates.get(slotId)?.casterId === casterId && (caster.resumed || caster.slotId === slotId);
+    const isFree = (slot: RemoteSlot) => !this.slotStates.get(slot.id)?.casterId || holds(slot.id);
+    const slot = wanted ? this.slots.find(s => s.id === wanted) : this.slots.find(isFree);
+    const refusal =
+      !slot ? (wanted ? 'That slot no longer exists.' : 'All slots are taken.') :
+      !isFree(slot) ? `${slot.label} is taken by another camera.` :
+      null;
+    if (!slot || refusal) {
+      sendLinkMessage(caster.link, { type: 'slot-refused', reason: refusal ?? 'All slots are taken.' });
+      sendLinkMessage(caster.link, { type: 'slots', slots: this.slotOffers() });
+      return;
+    }
+
+    // A phone holds one slot; moving frees the one it had (or was reconnecting to)
+    this.slotStates.forEach((state, slotId) => {
+      if (slotId !== slot.id && holds(slotId)) this.resetSlot(slotId);
+    });
+    if (caster.slotId && caster.slotId !== slot.id) this.hangUp(caster);
+    caster.slotId = slot.id;
+    const current = this.getSlot(slot.id);
+    this.updateSlot(slot.id, {
+      casterId,
+      caster: caster.metadata,
+      status: current.status === 'reconnecting' || current.status === 'streaming' ? current.status : 'connecting',
+    });
+    sendLinkMessage(caster.link, { type: 'slot-assigned', slotId: slot.id, label: slot.label });
+    this.offerSlots();
+  }
+
+  private route(call: MediaConnection) {
+    const caster = this.casters.get(call.peer);
+    const slotId = caster?.slotId;
+    if (!caster || !slotId || (call.metadata?.slotId && call.metadata.slotId !== slotId)) {
+      console.warn(`Hung up on ${call.peer}: it did not pair and claim a slot first.`);
+      call.close();
+      this.setInfo({ warning: 'Hung up on a camera that called without pairing.' });
+      return;
+    }
+
+    // A redial replaces whatever call this phone had
+    const oldCall = caster.call;
+    caster.call = call;
+    oldCall?.close();
+    caster.stopStats();
+    // The call's own metadata is not authenticated; the paired link's is
+    const current = this.getSlot(slotId);
+    this.updateSlot(slotId, {
+      caster: caster.metadata,
+      streamingSince: 0,
+      status: current.status === 'reconnecting' ? 'reconnecting' : 'connecting',
+    });
+    // Codec preferences must be in place before the answer is created, which happens right
+    // after the offer is applied and its tracks show up
+    const { qualityProfile } = caster.metadata;
+    const profile = qualityProfile ? QUALITY_PROFILES[qualityProfile] : null;
+    call.answer();
+    if (profile) call.peerConnection.addEventListener('track', event => preferCodecs(event.transceiver, profile));
+    call.on('stream', remoteStream => {
+      if (caster.call !== call) return;
+      this.clearGiveUp(slotId);
+      caster.stopStats();
+      caster.stopStats = connectionStats.watch(slotId, call.peerConnection);
+      this.updateSlot(slotId, { stream: remoteStream, status: 'streaming', streamingSince: Date.now() });
+    });
+    call.on('close', () => caster.call === call && this.connectionLost(caster, 'call closed'));
+    call.on('error', err => {
+      console.error('Call error:', err);
+      if (caster.call === call) this.connectionLost(caster, 'call failed');
+    });
+  }
+
+  // The phone went quiet or its video froze. Keep its slot reserved for a while, since it
+  // redials on its own, then free the slot.
+  private connectionLost(caster: PairedCaster, reason: string) {
+    if (this.casters.get(caster.peerId) !== caster) return;
+    const { slotId } = caster;
+    this.removeCaster(caster);
+    if (!slotId) return;
+    const state = this.slotStates.get(slotId);
+    if (!state || state.casterId !== caster.metadata.casterId) return;
+    console.warn(`${slotId}: camera connection lost (${reason})`);
+    this.clearGiveUp(slotId);
+    this.updateSlot(slotId, {
+      status: 'reconnecting',
+      stream: null,
+      cameraState: null,
+      cameraError: null,
+      giveUpTimer: setTimeout(() => {
+        if (this.getSlot(slotId).status !== 'reconnecting') return;
+        this.resetSlot(slotId);
+        this.offerSlots();
+      }, RECONNECT_GIVE_UP_MS),
+    });
+  }
+
+  // Frames stop when the caster's camera dies even though the call stays up
+  private checkFrozen() {
+    if (document.hidden) return;
+    const now = Date.now();
+    if (now - this.visibleSince < FROZEN_AFTER_MS) return; // frame callbacks pause in background tabs
+    this.casters.forEach(caster => {
+      const state = caster.slotId ? this.slotStates.get(caster.slotId) : null;
+      if (!caster.call || !state?.streamingSince) return;
+      const lastFrame = frameSync.latestFrameTime(caster.slotId!) ?? state.streamingSince;
+      if (now - Math.max(lastFrame, state.streamingSince) < FROZEN_AFTER_MS) return;
+      sendLinkMessage(caster.link, { type: 'restart', reason: 'Video stopped arriving at the console.' });
+      this.connectionLost(caster, 'video froze');
+    });
+  }
+
+  private hangUp(caster: PairedCaster) {
+    const call = caster.call;
+    caster.call = null;
+    caster.stopStats();
+    caster.stopStats = () => {};
+    call?.close();
+  }
+
+  private removeCaster(caster: PairedCaster) {
+    if (this.casters.get(caster.peerId) === caster) this.casters.delete(caster.peerId);
+    caster.stopHeartbeat();
+    this.hangUp(caster);
+    caster.link.close();
+  }
+
+  private casterInSlot(slotId: string): PairedCaster | undefined {
+    return [...this.casters.values()].find(caster => caster.slotId === slotId);
+  }
+
+  private slotOffers(): SlotOffer[] {
+    return this.slots.map(slot => ({ id: slot.id, label: slot.label, taken: !!this.slotStates.get(slot.id)?.casterId }));
+  }
+
+  // Tells every paired phone which slots are free now
+  private offerSlots() {
+    const slots = this.slotOffers();
+    this.casters.forEach(caster => sendLinkMessage(caster.link, { type: 'slots', slots }));
+  }
+
+  // One token per caster id; a new one replaces the old
+  private issueToken(casterId: string): string {
+    const token = generateResumeToken();
+    this.tokens = [...this.tokens.filter(existing => existing.casterId !== casterId), { token, casterId }].slice(-MAX_RESUME_TOKENS);
+    writeStored(TOKENS_STORAGE_KEY, JSON.stringify(this.tokens));
+    return token;
+  }
+
+  private clearGiveUp(slotId: string) {
+    const timer = this.slotStates.get(slotId)?.giveUpTimer;
+    if (!timer) return;
+    clearTimeout(timer);
+    this.updateSlot(slotId, { giveUpTimer: null });
+  }
+
+  private resetSlot(slotId: string) {
+    const timer = this.slotStates.get(slotId)?.giveUpTimer;
+    if (timer) clearTimeout(timer);
+    if (!this.slotStates.delete(slotId)) return;
+    this.emit();
+  }
+
+  private updateSlot(slotId: string, changes: Partial<SlotState>) {
+    const current = this.slotStates.get(slotId) ?? { ...IDLE_SLOT, casterId: null, streamingSince: 0, giveUpTimer: null };
+    this.slotStates.set(slotId, { ...current, ...changes });
+    this.emit();
+  }
+
+  private setInfo(changes: Partial<ConsolePeerInfo>) {
+    this.info = { ...this.info, ...changes };
+    this.emit();
+  }
+
+  private emit() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// Storage may be unavailable (private mode); the console then gets a new code on every load.
+const readStored = (key: string): string | null => {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+};
+
+const writeStored = (key: string, value: string) => {
+  try {
+    localStorage.setItem(key, value);
+  } catch {
+    // Keep working with the in-memory value
+  }
+};
+
+const readStoredTokens = (): ResumeToken[] => {
+  try {
+    const parsed = JSON.parse(readStored(TOKENS_STORAGE_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed.filter(token => typeof token?.token === 'string' && typeof token?.casterId === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+export const consolePeer = new ConsolePeer();
@@ -0,0 +1,64 @@
+import { DEFAULT_TEST_SCENE, isPickedFile } from './testSource';
+import type { SlotSource, TestSource } from '../types';
+
+// One camera tile on the console. The id is stable across renames and reorders, since the frame
+// bridge, frame sync and backend all key their data by it.
+export interface ConsoleSlot {
+  id: string;
+  label: string;
+  source: SlotSource;
+}
+
+const STORAGE_KEY = 'consoleSlots';
+export const MAX_CONSOLE_SLOTS = 6;
+
+export const DEFAULT_CONSOLE_SLOTS: ConsoleSlot[] = [
+  { id: 'left', label: 'Camera 1 (Left)', source: { kind: 'remote' } },
+  { id: 'right', label: 'Camera 2 (Right)', source: { kind: 'remote' } },
+];
+
+const isTestSource = (value: any): value is TestSource =>
+  (value?.type === 'scene' && typeof value.noise === 'number' && typeof value.perspective === 'number') ||
+  (value?.type === 'file' && typeof value.url === 'string');
+
+const isSlotSource = (value: any): value is SlotSource =>
+  value?.kind === 'remote' ||
+  (value?.kind === 'local' && (value.deviceId === null || typeof value.deviceId === 'string')) ||
+  (value?.kind === 'test' && isTestSource(value.source));
+
+const isConsoleSlot = (value: any): value is ConsoleSlot =>
+  typeof value?.id === 'string' && typeof value.label === 'string' && isSlotSource(value.source);
+
+// A picked video file cannot be opened after a reload, so such slots come back as the scene
+const persistable = (slot: ConsoleSlot): ConsoleSlot =>
+  slot.source.kind === 'test' && isPickedFile(slot.source.source)
+    ? { ...slot, source: { kind: 'test', source: { ...DEFAULT_TEST_SCENE } } }
+    : slot;
+
+export const loadConsoleSlots = (): ConsoleSlot[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (Array.isArray(parsed) && parsed.length > 0 && parsed.every(isConsoleSlot)) {
+      return parsed.slice(0, MAX_CONSOLE_SLOTS).map(persistable);
+    }
+  } catch {
+    // Unreadable or corrupt config; start from the default pair.
+  }
+  return DEFAULT_CONSOLE_SLOTS;
+};
+
+export const saveConsoleSlots = (slots: ConsoleSlot[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(slots.map(persistable)));
+  } catch {
+    // Storage may be unavailable (private mode); the layout still applies for this session.
+  }
+};
+
+// A new phone slot with the first free "Camera N" number.
+export const createConsoleSlot = (existing: ConsoleSlot[]): ConsoleSlot => {
+  const taken = new Set(existing.map(slot => slot.id));
+  let n = existing.length + 1;
+  while (taken.has(`cam-${n}`)) n++;
+  return { id: `cam-${n}`, label: `Camera ${n}`, source: { kind: 'remote' } };
+};
@@ -0,0 +1,18 @@
+// Large recordings can take a while to be written out after the click, and the browser reads
+// the blob through its URL until then
+const REVOKE_AFTER_MS = 60000;
+
+// Saves a Blob to the user's downloads folder.
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_AFTER_MS);
+};
+
+export const downloadJson = (data: unknown, filename: string) =>
+  downloadBlob(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }), filename);
@@ -0,0 +1,321 @@
+// Shared WebSocket bridge that forwards camera frames to the Python analysis backend.
+// All camera slots go through one connection so a slow backend is seen by everyone.
+import { encodeCalibration, encodeFrame, encodeHello, encodeStats, parseServerMessage, AnnotationsMessage, FrameHeader, SlotDescriptor } from './frameProtocol';
+import type { ConnectionStats } from './connectionStats';
+import type { StereoCalibration } from './stereo';
+
+export type BridgeSlotStatus = 'offline' | 'connected' | 'lagging';
+// 'continuous' streams frames up to MAX_FPS; 'changes' only sends keyframes taken after the
+// board content changed.
+export type BridgeSendMode = 'continuous' | 'changes';
+
+const URL_STORAGE_KEY = 'frameBridgeUrl';
+const SEND_MODE_STORAGE_KEY = 'frameBridgeSendMode';
+export const DEFAULT_BRIDGE_URL = process.env.FRAME_BRIDGE_URL || 'ws://localhost:8765';
+
+// Above this many queued bytes we stop encoding frames until the socket drains.
+const HIGH_WATER_MARK = 2 * 1024 * 1024;
+// A slot stays "lagging" for this long after its last dropped frame.
+const LAG_WINDOW_MS = 1500;
+const MIN_RETRY_MS = 500;
+const MAX_RETRY_MS = 10000;
+const MAX_FPS = 15;
+
+export interface EncodedFrame {
+  jpeg: ArrayBuffer;
+  width: number;
+  height: number;
+  capturedAt: number;
+  change?: FrameHeader['change'];
+}
+
+interface SlotState {
+  users: number;
+  seq: number;
+  encoding: boolean;
+  lastSentAt: number;
+  lastDroppedAt: number;
+  status: BridgeSlotStatus;
+}
+
+class FrameBridge {
+  private url: string;
+  private sendMode: BridgeSendMode;
+  private ws: WebSocket | null = null;
+  private retryDelay = MIN_RETRY_MS;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private slots = new Map<string, SlotState>();
+  private descriptors = new Map<string, SlotDescriptor>();
+  private stereoCalibration: StereoCalibration | null = null;
+  private listeners = new Set<() => void>();
+  private annotationListeners = new Map<string, Set<(message: AnnotationsMessage) => void>>();
+
+  constructor() {
+    this.url = readStoredUrl() || DEFAULT_BRIDGE_URL;
+    this.sendMode = readStoredSendMode() ?? 'changes';
+  }
+
+  getSendMode() {
+    return this.sendMode;
+  }
+
+  setSendMode(mode: BridgeSendMode) {
+    if (mode === this.sendMode) return;
+    this.sendMode = mode;
+    try {
+      localStorage.setItem(SEND_MODE_STORAGE_KEY, mode);
+    } catch {
+      // Storage may be unavailable (private mode); the mode still applies for this session.
+    }
+    this.emit();
+  }
+
+  getUrl() {
+    return this.url;
+  }
+
+  setUrl(url: string) {
+    const next = url.trim() || DEFAULT_BRIDGE_URL;
+    if (next === this.url) return;
+    this.url = next;
+    try {
+      if (next === DEFAULT_BRIDGE_URL) localStorage.removeItem(URL_STORAGE_KEY);
+      else localStorage.setItem(URL_STORAGE_KEY, next);
+    } catch {
+      // Storage may be unavailable (private mode); the URL still applies for this session.
+    }
+    this.disconnect();
+    if (this.hasUsers()) this.connect();
+    this.emit();
+  }
+
+  // Announces a console slot to the backend. Descriptors are sent in the Hello handshake
+  // whenever the socket opens and re-sent when they change.
+  describeSlot(descriptor: SlotDescriptor): () => void {
+    this.descriptors.set(descriptor.slotId, descriptor);
+    this.sendHello();
+    return () => {
+      if (this.descriptors.get(descriptor.slotId) !== descriptor) return;
+      this.descriptors.delete(descriptor.slotId);
+      this.sendHello();
+    };
+  }
+
+  // Shares a stereo calibration with the backend now and after every reconnect.
+  publishCalibration(calibration: StereoCalibration) {
+    this.stereoCalibration = calibration;
+    this.sendCalibration();
+  }
+
+  // Forwards a phone slot's WebRTC stats. Dropped while the socket is down; the next sample
+  // follows a second later anyway.
+  sendStats(slotId: string, stats: ConnectionStats) {
+    if (!this.isOpen()) return;
+    const label = this.descriptors.get(slotId)?.label ?? slotId;
+    this.ws!.send(encodeStats({ slotId, label, stats }));
+  }
+
+  // Registers a slot that wants to send frames. The socket is only opened while at least
+  // one slot is attached; the returned function detaches the slot again.
+  attach(slotId: string): () => void {
+    const slot = this.getSlot(slotId);
+    slot.users++;
+    if (!this.ws && !this.retryTimer) this.connect();
+    this.updateSlot(slotId, slot);
+
+    return () => {
+      slot.users--;
+      if (slot.users <= 0) this.slots.delete(slotId);
+      if (!this.hasUsers()) this.disconnect();
+      this.emit();
+    };
+  }
+
+  // Decides whether the caller should grab and encode a frame right now. Frames are skipped
+  // while the previous one is still encoding, while the socket's send buffer is above the
+  // high-water mark, or to stay under the per-slot frame rate cap.
+  shouldSend(slotId: string): boolean {
+    const slot = this.slots.get(slotId);
+    if (!slot) return false;
+    const now = performance.now();
+
+    if (!this.isOpen()) {
+      this.updateSlot(slotId, slot);
+      return false;
+    }
+    if (slot.encoding || now - slot.lastSentAt < 1000 / MAX_FPS) {
+      this.updateSlot(slotId, slot);
+      return false;
+    }
+    if (this.ws!.bufferedAmount > HIGH_WATER_MARK) {
+      slot.lastDroppedAt = now;
+      this.updateSlot(slotId, slot);
+      return false;
+    }
+
+    slot.encoding = true;
+    slot.lastSentAt = now;
+    this.updateSlot(slotId, slot);
+    return true;
+  }
+
+  // Sends an encoded frame for a slot that was granted a send by `shouldSend`.
+  // Passing null releases the grant without sending (e.g. when encoding failed).
+  send(slotId: string, frame: EncodedFrame | null) {
+    const slot = this.slots.get(slotId);
+    if (!slot) return;
+    slot.encoding = false;
+    if (!frame || !this.isOpen()) return;
+    this.ws!.send(encodeFrame({
+      slotId,
+      label: this.descriptors.get(slotId)?.label ?? slotId,
+      seq: slot.seq++,
+      capturedAt: frame.capturedAt,
+      width: frame.width,
+      height: frame.height,
+      mime: 'image/jpeg',
+      change: frame.change,
+    }, frame.jpeg));
+  }
+
+  getSlotStatus(slotId: string): BridgeSlotStatus {
+    return this.slots.get(slotId)?.status ?? 'offline';
+  }
+
+  // Receives annotation messages the backend sends for a slot.
+  onAnnotations(slotId: string, listener: (message: AnnotationsMessage) => void): () => void {
+    let listeners = this.annotationListeners.get(slotId);
+    if (!listeners) {
+      listeners = new Set();
+      this.annotationListeners.set(slotId, listeners);
+    }
+    listeners.add(listener);
+    return () => {
+      listeners!.delete(listener);
+      if (listeners!.size === 0) this.annotationListeners.delete(slotId);
+    };
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private isOpen() {
+    return this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  private hasUsers() {
+    return this.slots.size > 0;
+  }
+
+  private getSlot(slotId: string): SlotState {
+    let slot = this.slots.get(slotId);
+    if (!slot) {
+      slot = { users: 0, seq: 0, encoding: false, lastSentAt: 0, lastDroppedAt: -Infinity, status: 'offline' };
+      this.slots.set(slotId, slot);
+    }
+    return slot;
+  }
+
+  private updateSlot(slotId: string, slot: SlotState) {
+    let status: BridgeSlotStatus = 'offline';
+    if (this.isOpen()) {
+      status = performance.now() - slot.lastDroppedAt < LAG_WINDOW_MS ? 'lagging' : 'connected';
+    }
+    if (status !== slot.status && this.slots.get(slotId) === slot) {
+      slot.status = status;
+      this.emit();
+    }
+  }
+
+  private refreshAll() {
+    this.slots.forEach((slot, slotId) => this.updateSlot(slotId, slot));
+  }
+
+  private connect() {
+    this.retryTimer = null;
+    const ws = new WebSocket(this.url);
+    ws.binaryType = 'arraybuffer';
+    this.ws = ws;
+
+    ws.onopen = () => {
+      console.log(`✅ Frame bridge connected to ${this.url}`);
+      this.retryDelay = MIN_RETRY_MS;
+      this.sendHello();
+      this.refreshAll();
+    };
+    ws.onmessage = (event) => {
+      if (typeof event.data !== 'string') return;
+      const message = parseServerMessage(event.data);
+      if (message?.type === 'annotations') {
+        this.annotationListeners.get(message.slotId)?.forEach(listener => listener(message));
+      }
+    };
+    ws.onerror = () => console.warn(`Frame bridge error on ${this.url}`);
+    ws.onclose = () => {
+      if (this.ws !== ws) return;
+      this.ws = null;
+      this.slots.forEach(slot => { slot.encoding = false; });
+      this.refreshAll();
+      this.scheduleReconnect();
+    };
+  }
+
+  private sendHello() {
+    if (!this.isOpen()) return;
+    this.ws!.send(encodeHello({
+      client: 'console',
+      sentAt: Date.now(),
+      slots: Array.from(this.descriptors.values()),
+    }));
+    this.sendCalibration();
+  }
+
+  private sendCalibration() {
+    if (!this.isOpen() || !this.stereoCalibration) return;
+    this.ws!.send(encodeCalibration({ kind: 'stereo', calibration: this.stereoCalibration }));
+  }
+
+  private scheduleReconnect() {
+    if (!this.hasUsers() || this.retryTimer) return;
+    const delay = this.retryDelay;
+    this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_MS);
+    this.retryTimer = setTimeout(() => this.connect(), delay);
+  }
+
+  private disconnect() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.retryDelay = MIN_RETRY_MS;
+    const ws = this.ws;
+    this.ws = null;
+    ws?.close();
+    this.refreshAll();
+  }
+
+  private emit() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+const readStoredUrl = (): string | null => {
+  try {
+    return localStorage.getItem(URL_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+const readStoredSendMode = (): BridgeSendMode | null => {
+  try {
+    const mode = localStorage.getItem(SEND_MODE_STORAGE_KEY);
+    return mode === 'continuous' || mode === 'changes' ? mode : null;
+  } catch {
+    return null;
+  }
+};
+
+export const frameBridge = new FrameBridge();
@@ -0,0 +1,118 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeMessage, encodeFrame, encodeHello, encodeStats, parseServerMessage, MessageType, PROTOCOL_VERSION } from './frameProtocol';
+
+test('decodes a hello as it was encoded', () => {
+  const header = { client: 'console' as const, sentAt: 1700000000000, slots: [{ slotId: 'left', label: 'Camera 1 (Left)', peerId: 'abc' }] };
+  assert.deepEqual(decodeMessage(encodeHello(header)), { version: PROTOCOL_VERSION, type: MessageType.Hello, header });
+});
+
+test('decodes a frame with its header and payload', () => {
+  const header = { slotId: 'left', label: 'Camera 1 (Left)', seq: 7, capturedAt: 1700000000000, width: 640, height: 480, mime: 'image/jpeg' };
+  const jpeg = new Uint8Array([0xff, 0xd8, 0x01, 0x02, 0xff, 0xd9]);
+  const decoded = decodeMessage(encodeFrame(header, jpeg.buffer));
+  assert.equal(decoded.type, MessageType.Frame);
+  assert.deepEqual(decoded.header, header);
+  assert.deepEqual(decoded.type === MessageType.Frame && Array.from(decoded.payload), Array.from(jpeg));
+});
+
+test('decodes stats as they were encoded', () => {
+  const header = {
+    slotId: 'left',
+    label: 'Camera 1 (Left)',
+    stats: {
+      sampledAt: 1700000000000, width: 1920, height: 1080, fps: 14.8, bitrateKbps: 5200, packetLossPercent: 0.5,
+      packetsLost: 3, jitterMs: 4.2, rttMs: 38, codec: 'video/VP9', localCandidateType: 'host', remoteCandidateType: 'relay', protocol: 'udp',
+    },
+  };
+  assert.deepEqual(decodeMessage(encodeStats(header)), { version: PROTOCOL_VERSION, type: MessageType.Stats, header });
+});
+
+test('decodes from a Uint8Array view into a larger buffer', () => {
+  const message = new Uint8Array(encodeHello({ client: 'console', sentAt: 1, slots: [] }));
+  const padded = new Uint8Array(message.byteLength + 8);
+  padded.set(message, 4);
+  assert.equal(decodeMessage(padded.subarray(4, 4 + message.byteLength)).type, MessageType.Hello);
+});
+
+const hello = () => new Uint8Array(encodeHello({ client: 'console', sentAt: 1, slots: [] }));
+
+test('rejects messages shorter than the envelope', () => {
+  assert.throws(() => decodeMessage(new Uint8Array(4)), /shorter than the envelope/);
+});
+
+test('rejects a bad magic', () => {
+  const bytes = hello();
+  bytes[0] = 'X'.charCodeAt(0);
+  assert.throws(() => decodeMessage(bytes), /Bad magic "XWCF"/);
+});
+
+test('rejects another protocol version', () => {
+  const bytes = hello();
+  bytes[4] = PROTOCOL_VERSION + 1;
+  assert.throws(() => decodeMessage(bytes), /Unsupported protocol version/);
+});
+
+test('rejects a header length beyond the message', () => {
+  const bytes = hello();
+  new DataView(bytes.buffer).setUint32(6, bytes.byteLength);
+  assert.throws(() => decodeMessage(bytes), /Header length exceeds message size/);
+});
+
+test('rejects an unknown message type', () => {
+  const bytes = hello();
+  bytes[5] = 255;
+  assert.throws(() => decodeMessage(bytes), /Unknown message type 255/);
+});
+
+const message = (items: unknown[]) => JSON.stringify({ type: 'annotations', slotId: 'slot-1', frameWidth: 640, frameHeight: 480, items });
+
+test('keeps well-formed annotations of every kind', () => {
+  const items = [
+    { kind: 'box', x: 1, y: 2, width: 30, height: 40, label: 'pen' },
+    { kind: 'marker', id: 3, corners: [[0, 0], [10, 0], [10, 10], [0, 10]], color: '#f00' },
+    { kind: 'polyline', points: [[0, 0], [5, 5]], closed: true },
+    { kind: 'text', x: 5, y: 6, text: 'hello' },
+  ];
+  assert.deepEqual(parseServerMessage(message(items))?.items, items);
+});
+
+test('drops malformed items and keeps the rest', () => {
+  const good = { kind: 'text', x: 5, y: 6, text: 'kept' };
+  const parsed = parseServerMessage(message([
+    { kind: 'marker', id: 1 },
+    { kind: 'marker', id: 2, corners: [[0, 0], [1]] },
+    { kind: 'polyline' },
+    { kind: 'polyline', points: 'nope' },
+    { kind: 'box', x: 1, y: 2, width: '30', height: 40 },
+    { kind: 'text', x: 1, y: 2 },
+    { kind: 'circle', x: 1, y: 2 },
+    { kind: 'box', x: 1, y: 2, width: 3, height: 4, color: 7 },
+    null,
+    'box',
+    good,
+  ]));
+  assert.deepEqual(parsed?.items, [good]);
+});
+
+test('rejects messages with a bad envelope', () => {
+  assert.equal(parseServerMessage('not json'), null);
+  assert.equal(parseServerMessage(JSON.stringify({ type: 'annotations', slotId: 'slot-1', frameWidth: 640, frameHeight: 480 })), null);
+  assert.equal(parseServerMessage(JSON.stringify({ type: 'annotations', slotId: 'slot-1', frameWidth: 0, frameHeight: 480, items: [] })), null);
+  assert.equal(parseServerMessage(JSON.stringify({ type: 'other', slotId: 'slot-1', frameWidth: 640, frameHeight: 480, items: [] })), null);
+});
+
+test('rejects envelope fields of the wrong type', () => {
+  const envelope = { type: 'annotations', slotId: 'slot-1', frameWidth: 640, frameHeight: 480, items: [] };
+  assert.equal(parseServerMessage(JSON.stringify({ ...envelope, frameWidth: '640' })), null);
+  assert.equal(parseServerMessage(JSON.stringify({ ...envelope, frameHeight: -480 })), null);
+  assert.equal(parseServerMessage(JSON.stringify({ ...envelope, ttlMs: '500' })), null);
+  assert.equal(parseServerMessage(JSON.stringify({ ...envelope, frameSeq: null })), null);
+  assert.equal(parseServerMessage(JSON.stringify({ ...envelope, layer: 3 })), null);
+  assert.equal(parseServerMessage('null'), null);
+});
+
+test('keeps only the known envelope fields', () => {
+  const envelope = { type: 'annotations', slotId: 'slot-1', layer: 'ocr', frameSeq: 7, frameWidth: 640, frameHeight: 480, ttlMs: 500, items: [] };
+  assert.deepEqual(parseServerMessage(JSON.stringify({ ...envelope, extra: { nested: true } })), envelope);
+});
@@ -0,0 +1,205 @@
+// Binary message format spoken over the frame bridge WebSocket.
+//
+// Every binary message has the same envelope (all integers big-endian):
+//
+//   offset  size  field
+//   0       4     magic, ASCII "MWCF"
+//   4       1     protocol version (PROTOCOL_VERSION)
+//   5       1     message type (MessageType)
+//   6       4     header length N in bytes
+//   10      N     UTF-8 JSON header, shape depends on the message type
+//   10+N    ...   payload (JPEG bytes for frames, empty otherwise)
+//
+// The console sends a Hello when the socket opens (and again whenever its slots change),
+// followed by one Frame message per forwarded video frame. Calibration messages are sent when
+// a calibration is computed and again after each Hello. Stats messages carry the WebRTC
+// statistics of a phone slot about once a second while the socket is open.
+//
+// In the other direction the backend sends UTF-8 JSON text messages (see ServerMessage).
+
+import type { ConnectionStats } from './connectionStats';
+import type { StereoCalibration } from './stereo';
+
+export const PROTOCOL_MAGIC = 'MWCF';
+export const PROTOCOL_VERSION = 1;
+
+export enum MessageType {
+  Hello = 1,
+  Frame = 2,
+  Calibration = 3,
+  Stats = 4,
+}
+
+export interface SlotDescriptor {
+  slotId: string;
+  label: string;
+  peerId: string | null;
+}
+
+export interface HelloHeader {
+  client: 'console';
+  sentAt: number;
+  slots: SlotDescriptor[];
+}
+
+export interface FrameHeader {
+  slotId: string;
+  label: string;
+  seq: number;
+  // Wall-clock capture time in milliseconds since the Unix epoch
+  capturedAt: number;
+  width: number;
+  height: number;
+  mime: string;
+  // Present when frames are only sent on board changes: what changed since the previous keyframe.
+  // bbox is normalized to 0..1 as [x, y, width, height]. Absent on the first keyframe.
+  change?: { fraction: number; bbox: [number, number, number, number] };
+}
+
+export interface CalibrationHeader {
+  kind: 'stereo';
+  calibration: StereoCalibration;
+}
+
+export interface StatsHeader {
+  slotId: string;
+  label: string;
+  stats: ConnectionStats;
+}
+
+export type DecodedMessage =
+  | { version: number; type: MessageType.Hello; header: HelloHeader }
+  | { version: number; type: MessageType.Calibration; header: CalibrationHeader }
+  | { version: number; type: MessageType.Stats; header: StatsHeader }
+  | { version: number; type: MessageType.Frame; header: FrameHeader; payload: Uint8Array };
+
+const ENVELOPE_SIZE = 10;
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+const encode = (type: MessageType, header: object, payload?: ArrayBuffer): ArrayBuffer => {
+  const headerBytes = textEncoder.encode(JSON.stringify(header));
+  const payloadSize = payload?.byteLength ?? 0;
+  const buffer = new ArrayBuffer(ENVELOPE_SIZE + headerBytes.byteLength + payloadSize);
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+
+  for (let i = 0; i < PROTOCOL_MAGIC.length; i++) bytes[i] = PROTOCOL_MAGIC.charCodeAt(i);
+  view.setUint8(4, PROTOCOL_VERSION);
+  view.setUint8(5, type);
+  view.setUint32(6, headerBytes.byteLength);
+  bytes.set(headerBytes, ENVELOPE_SIZE);
+  if (payload) bytes.set(new Uint8Array(payload), ENVELOPE_SIZE + headerBytes.byteLength);
+  return buffer;
+};
+
+export const encodeHello = (header: HelloHeader): ArrayBuffer => encode(MessageType.Hello, header);
+
+export const encodeCalibration = (header: CalibrationHeader): ArrayBuffer => encode(MessageType.Calibration, header);
+
+export const encodeStats = (header: StatsHeader): ArrayBuffer => encode(MessageType.Stats, header);
+
+export const encodeFrame = (header: FrameHeader, jpeg: ArrayBuffer): ArrayBuffer =>
+  encode(MessageType.Frame, header, jpeg);
+
+// Reference decoder, used by the local echo server and as the spec for the Python side.
+export const decodeMessage = (data: ArrayBuffer | Uint8Array): DecodedMessage => {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  if (bytes.byteLength < ENVELOPE_SIZE) throw new Error('Message shorter than the envelope');
+
+  const magic = String.fromCharCode(bytes[0], bytes[1], bytes[2], bytes[3]);
+  if (magic !== PROTOCOL_MAGIC) throw new Error(`Bad magic "${magic}"`);
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const version = view.getUint8(4);
+  if (version !== PROTOCOL_VERSION) throw new Error(`Unsupported protocol version ${version}`);
+
+  const type = view.getUint8(5);
+  const headerLength = view.getUint32(6);
+  const payloadOffset = ENVELOPE_SIZE + headerLength;
+  if (payloadOffset > bytes.byteLength) throw new Error('Header length exceeds message size');
+  const header = JSON.parse(textDecoder.decode(bytes.subarray(ENVELOPE_SIZE, payloadOffset)));
+
+  switch (type) {
+    case MessageType.Hello:
+    case MessageType.Calibration:
+    case MessageType.Stats:
+      return { version, type, header };
+    case MessageType.Frame:
+      return { version, type, header, payload: bytes.subarray(payloadOffset) };
+    default:
+      throw new Error(`Unknown message type ${type}`);
+  }
+};
+
+// --- Back-channel (server -> console) ---
+
+// Coordinates are pixels in the frame the backend received (FrameHeader width/height).
+export type Point = [number, number];
+
+export type Annotation =
+  | { kind: 'box'; x: number; y: number; width: number; height: number; label?: string; color?: string }
+  | { kind: 'marker'; id: number; corners: Point[]; color?: string }
+  | { kind: 'polyline'; points: Point[]; closed?: boolean; color?: string }
+  | { kind: 'text'; x: number; y: number; text: string; color?: string };
+
+export interface AnnotationsMessage {
+  type: 'annotations';
+  slotId: string;
+  // Messages for the same slot and layer replace each other; different layers stack.
+  layer?: string;
+  frameSeq?: number;
+  frameWidth: number;
+  frameHeight: number;
+  // How long the annotations stay on screen without being refreshed
+  ttlMs?: number;
+  items: Annotation[];
+}
+
+export type ServerMessage = AnnotationsMessage;
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isOptionalNumber = (value: unknown): value is number | undefined => value === undefined || isNumber(value);
+const isOptionalString = (value: unknown): value is string | undefined => value === undefined || typeof value === 'string';
+const isPoints = (value: unknown): value is Point[] =>
+  Array.isArray(value) && value.every(point => Array.isArray(point) && point.length === 2 && isNumber(point[0]) && isNumber(point[1]));
+
+// Checks one item against the shape of its kind, so the overlay can draw it without guarding
+const isAnnotation = (item: any): item is Annotation => {
+  if (!item || typeof item !== 'object' || !isOptionalString(item.color)) return false;
+  switch (item.kind) {
+    case 'box':
+      return isNumber(item.x) && isNumber(item.y) && isNumber(item.width) && isNumber(item.height) && isOptionalString(item.label);
+    case 'marker':
+      return isNumber(item.id) && isPoints(item.corners);
+    case 'polyline':
+      return isPoints(item.points) && (item.closed === undefined || typeof item.closed === 'boolean');
+    case 'text':
+      return isNumber(item.x) && isNumber(item.y) && typeof item.text === 'string';
+    default:
+      return false;
+  }
+};
+
+// Parses a text message from the backend, returning null for anything the console doesn't understand.
+// Malformed annotation items are dropped and the rest of the message kept.
+export const parseServerMessage = (text: string): ServerMessage | null => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!parsed || typeof parsed !== 'object') return null;
+  const message = parsed as Record<string, unknown>;
+  const { slotId, layer, frameSeq, frameWidth, frameHeight, ttlMs, items } = message;
+  if (message.type !== 'annotations' || typeof slotId !== 'string' || !Array.isArray(items)) return null;
+  if (!isNumber(frameWidth) || frameWidth <= 0 || !isNumber(frameHeight) || frameHeight <= 0) return null;
+  if (!isOptionalString(layer) || !isOptionalNumber(frameSeq) || !isOptionalNumber(ttlMs)) return null;
+
+  const annotations: AnnotationsMessage = { type: 'annotations', slotId, frameWidth, frameHeight, items: items.filter(isAnnotation) };
+  if (layer !== undefined) annotations.layer = layer;
+  if (frameSeq !== undefined) annotations.frameSeq = frameSeq;
+  if (ttlMs !== undefined) annotations.ttlMs = ttlMs;
+  return annotations;
+};
@@ -0,0 +1,279 @@
+// Pairs frames from different camera slots that were captured at (nearly) the same moment.
+//
+// Each slot's <video> is watched with requestVideoFrameCallback. For WebRTC streams the callback
+// metadata carries `captureTime`, the sender's capture instant mapped onto our clock from RTCP
+// sender reports; when that is missing we fall back to `receiveTime`, and on browsers without
+// requestVideoFrameCallback to the time the frame was rendered. Frames whose timestamps lie
+// within the tolerance across every active slot are emitted together as one set.
+
+export type TimestampSource = 'capture' | 'receive' | 'render';
+
+export interface SyncedFrame {
+  slotId: string;
+  // performance.now() timebase
+  timestamp: number;
+  width: number;
+  height: number;
+  // Only valid while the frame set listener runs; it is closed right after.
+  bitmap: ImageBitmap;
+}
+
+export interface SyncedFrameSet {
+  frames: SyncedFrame[];
+  // Largest timestamp difference between the frames in the set
+  skewMs: number;
+}
+
+export interface SyncStats {
+  // Average distance over the last second between each new frame and the nearest frame of every
+  // other slot, whether or not it was within tolerance. Null when there was nothing to compare.
+  skewMs: number | null;
+  setsPerSecond: number;
+  toleranceMs: number;
+  sources: { slotId: string; timestampSource: TimestampSource }[];
+}
+
+interface PendingFrame {
+  timestamp: number;
+  width: number;
+  height: number;
+  // Only captured while someone listens for frame sets
+  bitmap: ImageBitmap | null;
+}
+
+interface SourceState {
+  buffer: PendingFrame[];
+  timestampSource: TimestampSource;
+  latestTimestamp: number | null;
+}
+
+const TOLERANCE_STORAGE_KEY = 'frameSyncToleranceMs';
+const DEFAULT_TOLERANCE_MS = 40;
+// Frames older than this that never found partners are dropped
+const MAX_FRAME_AGE_MS = 1000;
+const MAX_BUFFERED_FRAMES = 8;
+const STATS_INTERVAL_MS = 1000;
+
+class FrameSync {
+  private sources = new Map<string, SourceState>();
+  private setListeners = new Set<(set: SyncedFrameSet) => void>();
+  private statsListeners = new Set<() => void>();
+  private toleranceMs: number;
+  private windowSkews: number[] = [];
+  private windowMatches = 0;
+  private statsTimer: ReturnType<typeof setInterval> | null = null;
+  private stats: SyncStats;
+
+  constructor() {
+    this.toleranceMs = readStoredTolerance() ?? DEFAULT_TOLERANCE_MS;
+    this.stats = { skewMs: null, setsPerSecond: 0, toleranceMs: this.toleranceMs, sources: [] };
+  }
+
+  setTolerance(ms: number) {
+    if (!(ms > 0) || ms === this.toleranceMs) return;
+    this.toleranceMs = ms;
+    try {
+      localStorage.setItem(TOLERANCE_STORAGE_KEY, String(ms));
+    } catch {
+      // Storage may be unavailable (private mode); the value still applies for this session.
+    }
+    this.publishStats();
+  }
+
+  // Starts timestamping the frames of a slot's video. Returns a function that stops it.
+  addSource(slotId: string, video: HTMLVideoElement): () => void {
+    const hasVideoFrameCallback = typeof video.requestVideoFrameCallback === 'function';
+    const source: SourceState = {
+      buffer: [],
+      timestampSource: hasVideoFrameCallback ? 'receive' : 'render',
+      latestTimestamp: null,
+    };
+    this.sources.set(slotId, source);
+    this.ensureStatsTimer();
+    this.publishStats();
+
+    let stopped = false;
+    let handle: number;
+
+    const onFrame = (timestamp: number, width: number, height: number) => {
+      source.latestTimestamp = timestamp;
+      if (this.sources.size < 2 || width === 0) return;
+      if (this.setListeners.size === 0) {
+        insertFrame(source.buffer, { timestamp, width, height, bitmap: null });
+        this.match(slotId);
+        return;
+      }
+      createImageBitmap(video).then(bitmap => {
+        if (stopped || this.sources.get(slotId) !== source) {
+          bitmap.close();
+          return;
+        }
+        insertFrame(source.buffer, { timestamp, width, height, bitmap });
+        this.match(slotId);
+      }).catch(() => {
+        // The video had no decodable frame at this moment; skip it.
+      });
+    };
+
+    if (hasVideoFrameCallback) {
+      const onVideoFrame: VideoFrameRequestCallback = (now, metadata) => {
+        if (stopped) return;
+        const timestampSource: TimestampSource =
+          metadata.captureTime !== undefined ? 'capture' : metadata.receiveTime !== undefined ? 'receive' : 'render';
+        if (timestampSource !== source.timestampSource) {
+          source.timestampSource = timestampSource;
+          this.publishStats();
+        }
+        onFrame(metadata.captureTime ?? metadata.receiveTime ?? metadata.presentationTime ?? now, metadata.width, metadata.height);
+        handle = video.requestVideoFrameCallback(onVideoFrame);
+      };
+      handle = video.requestVideoFrameCallback(onVideoFrame);
+    } else {
+      // Animation frames also tick while the video shows the same frame
+      let lastTime = -1;
+      const onAnimationFrame = (now: number) => {
+        if (stopped) return;
+        if (video.currentTime !== lastTime) {
+          lastTime = video.currentTime;
+          onFrame(now, video.videoWidth, video.videoHeight);
+        }
+        handle = requestAnimationFrame(onAnimationFrame);
+      };
+      handle = requestAnimationFrame(onAnimationFrame);
+    }
+
+    return () => {
+      stopped = true;
+      if (hasVideoFrameCallback) video.cancelVideoFrameCallback(handle);
+      else cancelAnimationFrame(handle);
+      if (this.sources.get(slotId) === source) {
+        source.buffer.forEach(frame => frame.bitmap?.close());
+        this.sources.delete(slotId);
+      }
+      if (this.sources.size === 0 && this.statsTimer) {
+        clearInterval(this.statsTimer);
+        this.statsTimer = null;
+      }
+      this.publishStats();
+    };
+  }
+
+  // Wall-clock (epoch ms) timestamp of the newest frame seen for a slot.
+  latestFrameTime(slotId: string): number | null {
+    const timestamp = this.sources.get(slotId)?.latestTimestamp;
+    return timestamp == null ? null : performance.timeOrigin + timestamp;
+  }
+
+  // Receives every matched frame set. Bitmaps are closed as soon as the listener returns, so
+  // draw or copy them synchronously.
+  onFrameSet(listener: (set: SyncedFrameSet) => void): () => void {
+    this.setListeners.add(listener);
+    return () => this.setListeners.delete(listener);
+  }
+
+  getStats(): SyncStats {
+    return this.stats;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.statsListeners.add(listener);
+    return () => this.statsListeners.delete(listener);
+  }
+
+  private match(slotId: string) {
+    const now = performance.now();
+    this.sources.forEach(source => {
+      while (source.buffer.length > MAX_BUFFERED_FRAMES || (source.buffer[0] && now - source.buffer[0].timestamp > MAX_FRAME_AGE_MS)) {
+        source.buffer.shift()!.bitmap?.close();
+      }
+    });
+
+    const anchorSource = this.sources.get(slotId)!;
+    const anchor = anchorSource.buffer[anchorSource.buffer.length - 1];
+    if (!anchor) return;
+
+    // Nearest buffered frame of every slot to the newest frame of this one
+    const picks = new Map<string, number>();
+    let skew = 0;
+    for (const [id, source] of this.sources) {
+      let best = -1;
+      let bestDelta = Infinity;
+      source.buffer.forEach((frame, i) => {
+        const delta = Math.abs(frame.timestamp - anchor.timestamp);
+        if (delta < bestDelta) {
+          best = i;
+          bestDelta = delta;
+        }
+      });
+      if (best < 0) return;
+      picks.set(id, best);
+      skew = Math.max(skew, bestDelta);
+    }
+    this.windowSkews.push(skew);
+    if (skew > this.toleranceMs) return;
+    this.windowMatches++;
+
+    const frames: PendingFrame[] = [];
+    picks.forEach((index, id) => {
+      const source = this.sources.get(id)!;
+      frames.push(source.buffer[index]);
+      // Everything up to the matched frame is consumed; older frames can no longer match
+      source.buffer.splice(0, index + 1).slice(0, -1).forEach(old => old.bitmap?.close());
+    });
+
+    try {
+      // Frames buffered before the first listener subscribed carry no bitmap; only measure those
+      if (this.setListeners.size === 0 || frames.some(frame => !frame.bitmap)) return;
+      const slotIds = Array.from(picks.keys());
+      const set: SyncedFrameSet = {
+        frames: frames.map((frame, i) => ({ ...frame, slotId: slotIds[i], bitmap: frame.bitmap! })),
+        skewMs: skew,
+      };
+      this.setListeners.forEach(listener => listener(set));
+    } finally {
+      frames.forEach(frame => frame.bitmap?.close());
+    }
+  }
+
+  private ensureStatsTimer() {
+    if (this.statsTimer) return;
+    this.statsTimer = setInterval(() => this.publishStats(true), STATS_INTERVAL_MS);
+  }
+
+  // Publishes a new stats snapshot. Skew figures only roll over on the once-per-second tick.
+  private publishStats(rollWindow = false) {
+    let { skewMs, setsPerSecond } = this.stats;
+    if (rollWindow) {
+      const skews = this.windowSkews;
+      skewMs = skews.length ? skews.reduce((a, b) => a + b, 0) / skews.length : null;
+      setsPerSecond = this.windowMatches * 1000 / STATS_INTERVAL_MS;
+      this.windowSkews = [];
+      this.windowMatches = 0;
+    }
+    this.stats = {
+      skewMs,
+      setsPerSecond,
+      toleranceMs: this.toleranceMs,
+      sources: Array.from(this.sources, ([slotId, source]) => ({ slotId, timestampSource: source.timestampSource })),
+    };
+    this.statsListeners.forEach(listener => listener());
+  }
+}
+
+// Bitmaps can resolve out of order, so frames go in by timestamp to keep the buffer sorted
+const insertFrame = (buffer: PendingFrame[], frame: PendingFrame) => {
+  let i = buffer.length;
+  while (i > 0 && buffer[i - 1].timestamp > frame.timestamp) i--;
+  buffer.splice(i, 0, frame);
+};
+
+const readStoredTolerance = (): number | null => {
+  try {
+    const value = Number(localStorage.getItem(TOLERANCE_STORAGE_KEY));
+    return value > 0 ? value : null;
+  } catch {
+    return null;
+  }
+};
+
+export const frameSync = new FrameSync();
@@ -0,0 +1,111 @@
+// Keyframe timeline: one full-resolution still per slot every time the board settles after its
+// content changed. Each keyframe also gets a thumbnail with the changed area highlighted. Change
+// detection and encoding run in the vision worker.
+import type { ChangeRegion, DetectedChange } from './changeDetector';
+import { frameSync } from './frameSync';
+import { visionPipeline } from './visionPipeline';
+
+export interface Keyframe {
+  id: number;
+  slotId: string;
+  // Epoch ms; the source capture time of the frame when known
+  capturedAt: number;
+  width: number;
+  height: number;
+  image: Blob;
+  imageUrl: string;
+  thumbnailUrl: string;
+  change: ChangeRegion;
+  initial: boolean;
+}
+
+const SAMPLE_INTERVAL_MS = 250;
+const MAX_KEYFRAMES_PER_SLOT = 60;
+
+const EMPTY: Keyframe[] = [];
+
+class KeyframeTimeline {
+  private keyframes = new Map<string, Keyframe[]>();
+  private listeners = new Set<() => void>();
+  private keyframeListeners = new Set<(keyframe: Keyframe) => void>();
+  private nextId = 1;
+
+  // Watches a slot's video for content changes. Returns a function that stops watching; the
+  // slot's keyframes stay until cleared.
+  addSource(slotId: string, video: HTMLVideoElement): () => void {
+    let capturing = false;
+    let stopped = false;
+
+    const intervalId = setInterval(() => {
+      // Hidden tabs get throttled timers and stale frames; just wait until visible again
+      if (capturing || document.hidden) return;
+      capturing = true;
+      visionPipeline.detectChange(slotId, video)
+        .then(change => change && !stopped ? this.capture(slotId, video, change) : undefined)
+        .catch(err => console.error('Keyframe capture failed:', err))
+        .finally(() => { capturing = false; });
+    }, SAMPLE_INTERVAL_MS);
+
+    return () => {
+      stopped = true;
+      clearInterval(intervalId);
+      visionPipeline.release(slotId, 'change');
+    };
+  }
+
+  getKeyframes(slotId: string): Keyframe[] {
+    return this.keyframes.get(slotId) ?? EMPTY;
+  }
+
+  clear(slotId: string) {
+    this.keyframes.get(slotId)?.forEach(revoke);
+    this.keyframes.delete(slotId);
+    this.emit();
+  }
+
+  // Called with every new keyframe of any slot.
+  onKeyframe(listener: (keyframe: Keyframe) => void): () => void {
+    this.keyframeListeners.add(listener);
+    return () => this.keyframeListeners.delete(listener);
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private async capture(slotId: string, video: HTMLVideoElement, change: DetectedChange) {
+    const capturedAt = frameSync.latestFrameTime(slotId) ?? Date.now();
+    const rendered = await visionPipeline.renderKeyframe(slotId, video, change);
+    if (!rendered) return;
+    const keyframe: Keyframe = {
+      id: this.nextId++,
+      slotId,
+      capturedAt,
+      width: rendered.width,
+      height: rendered.height,
+      image: rendered.image,
+      imageUrl: URL.createObjectURL(rendered.image),
+      thumbnailUrl: URL.createObjectURL(rendered.thumbnail),
+      change: { fraction: change.fraction, bbox: change.bbox },
+      initial: change.initial,
+    };
+
+    const list = [...this.getKeyframes(slotId), keyframe];
+    while (list.length > MAX_KEYFRAMES_PER_SLOT) revoke(list.shift()!);
+    this.keyframes.set(slotId, list);
+    this.emit();
+    this.keyframeListeners.forEach(listener => listener(keyframe));
+  }
+
+  private emit() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+const revoke = (keyframe: Keyframe) => {
+  URL.revokeObjectURL(keyframe.imageUrl);
+  URL.revokeObjectURL(keyframe.thumbnailUrl);
+};
+
+export const keyframeTimeline = new KeyframeTimeline();
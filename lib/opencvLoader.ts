@@ -1,190 +1,234 @@
-// Optimized loader for OpenCV.js with lazy loading support
-let cvLoadPromise: Promise<void> | null = null;
-let isOpenCVLoading = false;
+// Loader for OpenCV.js, used on the page and in the vision worker. Sources are tried in order:
+// OPENCV_URLS from the environment if set, otherwise the locally served build (`npm run
+// opencv:fetch` puts one in public/opencv/) and then public CDNs. The script is downloaded with
+// fetch so progress can be shown, and the build that loaded is probed for the modules the console
+// uses. A build missing a module is still used; features that need the module report it as
+// missing (see useOpenCV).
+
+export type OpenCVModule = 'imgproc' | 'calib3d' | 'features2d' | 'photo' | 'aruco';
+
+export const OPENCV_MODULES: OpenCVModule[] = ['imgproc', 'calib3d', 'features2d', 'photo', 'aruco'];
+
+// What each module is checked by: functions the console calls, or their closest equivalent
+const MODULE_PROBES: Record<OpenCVModule, (cv: any) => boolean> = {
+  imgproc: cv => typeof cv.cvtColor === 'function' && typeof cv.warpPerspective === 'function',
+  calib3d: cv => (typeof cv.calibrateCamera === 'function' || typeof cv.calibrateCameraExtended === 'function')
+    && typeof cv.solvePnP === 'function' && typeof cv.findHomography === 'function',
+  features2d: cv => typeof cv.ORB === 'function',
+  photo: cv => typeof cv.inpaint === 'function',
+  // 4.7+ builds expose the detector class, older contrib builds the free function (see aruco.ts)
+  aruco: cv => typeof cv.aruco_ArucoDetector === 'function' || typeof cv.detectMarkers === 'function',
+};
+
+export const LOCAL_OPENCV_URL = '/opencv/opencv.js';
 
-// List of OpenCV.js builds with ArUco support (tried in order)
-const OPENCV_URLS = [
+// Builds are downloaded with fetch, which needs CORS headers from other origins. On the page a
+// source that fails without them is loaded again with a plain script tag (no progress); the vision
+// worker has no script tags, so there every source has to send CORS headers.
+export const OPENCV_CDN_URLS = [
   // Huggingface hosted build with contrib modules (includes ArUco)
   'https://huggingface.co/spaces/radames/opencv-js-demo/resolve/main/opencv.js',
   // Alternative build from jsDelivr
   'https://cdn.jsdelivr.net/npm/@techstark/opencv-js@4.10.0-release.1/opencv.js',
-  // Fallback to standard build (may not have ArUco)
+  // Fallback to standard build (no ArUco)
   'https://docs.opencv.org/4.5.2/opencv.js',
 ];
 
-export function loadOpenCV(src?: string): Promise<void> {
-  // Quick check if already loaded
-  if (typeof window !== 'undefined' && (window as any).cv?.ready) {
-    return Promise.resolve();
+const configuredUrls = (process.env.OPENCV_URLS || '').split(',').map(url => url.trim()).filter(Boolean);
+
+export const OPENCV_URLS = configuredUrls.length > 0 ? configuredUrls : [LOCAL_OPENCV_URL, ...OPENCV_CDN_URLS];
+
+// A source is given up when no bytes arrive for this long, rather than after a fixed total time,
+// so a slow but steady download of the ~10 MB script still completes
+const STALL_TIMEOUT_MS = 15000;
+// Compiling the WebAssembly runtime after the download
+const INIT_TIMEOUT_MS = 30000;
+
+export type OpenCVLoadState = 'idle' | 'loading' | 'ready' | 'failed';
+
+export interface OpenCVSourceFailure {
+  url: string;
+  error: string;
+}
+
+export interface OpenCVStatus {
+  state: OpenCVLoadState;
+  // Source being downloaded, or the one that loaded
+  url: string | null;
+  loadedBytes: number;
+  // From Content-Length; null when the server doesn't say
+  totalBytes: number | null;
+  version: string | null;
+  // Known once a build has loaded
+  modules: Record<OpenCVModule, boolean> | null;
+  failures: OpenCVSourceFailure[];
+}
+
+let status: OpenCVStatus = {
+  state: 'idle',
+  url: null,
+  loadedBytes: 0,
+  totalBytes: null,
+  version: null,
+  modules: null,
+  failures: [],
+};
+const listeners = new Set<() => void>();
+let cvLoadPromise: Promise<void> | null = null;
+
+const setStatus = (changes: Partial<OpenCVStatus>) => {
+  status = { ...status, ...changes };
+  listeners.forEach(listener => listener());
+};
+
+export const getOpenCVStatus = (): OpenCVStatus => status;
+
+export const subscribeOpenCVStatus = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+// Modules in `required` the loaded build lacks; empty until a build has loaded
+export const missingOpenCVModules = (required: OpenCVModule[], current = status): OpenCVModule[] =>
+  current.modules ? required.filter(module => !current.modules![module]) : [];
+
+const describeError = (err: unknown) => err instanceof Error ? err.message : String(err);
+
+const download = async (url: string): Promise<Blob> => {
+  const controller = new AbortController();
+  let stallTimer = setTimeout(() => controller.abort(), STALL_TIMEOUT_MS);
+  const progressed = () => {
+    clearTimeout(stallTimer);
+    stallTimer = setTimeout(() => controller.abort(), STALL_TIMEOUT_MS);
+  };
+
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    // Dev servers answer unknown paths with the app's index.html
+    if ((response.headers.get('content-type') ?? '').includes('text/html')) throw new Error('Not found (got an HTML page)');
+    const totalBytes = Number(response.headers.get('content-length')) || null;
+    setStatus({ totalBytes });
+    if (!response.body) return await response.blob();
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let loadedBytes = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      loadedBytes += value.byteLength;
+      progressed();
+      setStatus({ loadedBytes });
+    }
+    return new Blob(chunks, { type: 'text/javascript' });
+  } catch (err) {
+    if (controller.signal.aborted) throw new Error(`No data for ${STALL_TIMEOUT_MS / 1000} s`);
+    throw err;
+  } finally {
+    clearTimeout(stallTimer);
   }
+};
 
-  // Return existing promise if already loading
-  if (cvLoadPromise) return cvLoadPromise;
+// Waits for the runtime of a freshly run script. Builds differ: older ones set
+// `cv.onRuntimeInitialized`, 4.8+ make `cv` a promise of the module.
+const waitForRuntime = (cv: any): Promise<any> => new Promise((resolve, reject) => {
+  const timer = setTimeout(() => reject(new Error('Runtime did not initialize')), INIT_TIMEOUT_MS);
+  const done = (module: any) => {
+    clearTimeout(timer);
+    resolve(module);
+  };
+  const fail = (err: Error) => {
+    clearTimeout(timer);
+    reject(err);
+  };
+  if (!cv) fail(new Error('Script did not define cv'));
+  else if (cv instanceof Promise) cv.then(done, fail);
+  else if (typeof cv.Mat === 'function') done(cv);
+  else cv.onRuntimeInitialized = () => done(cv);
+});
+
+const appendScript = (src: string) => new Promise<void>((resolve, reject) => {
+  const element = document.createElement('script');
+  element.src = src;
+  element.setAttribute('data-opencv', 'true');
+  element.onload = () => resolve();
+  element.onerror = () => {
+    element.remove();
+    reject(new Error('Script failed to run'));
+  };
+  document.head.appendChild(element);
+});
 
-  // Prevent duplicate loading attempts
-  if (isOpenCVLoading) {
-    return new Promise((resolve) => {
-      const checkInterval = setInterval(() => {
-        if ((window as any).cv?.ready) {
-          clearInterval(checkInterval);
-          resolve();
-        }
-      }, 100);
-    });
+// Runs the downloaded script (or the one at a URL) as a page script, or in the vision worker
+// (which has no script elements) by evaluating it in the global scope.
+const runScript = async (script: Blob | string): Promise<any> => {
+  const scope = globalThis as any;
+  try {
+    if (typeof script === 'string') {
+      await appendScript(script);
+    } else if (typeof document === 'undefined') {
+      (0, eval)(await script.text());
+    } else {
+      const objectUrl = URL.createObjectURL(script);
+      try {
+        await appendScript(objectUrl);
+      } finally {
+        URL.revokeObjectURL(objectUrl);
+      }
+    }
+    const cv = await waitForRuntime(scope.cv);
+    scope.cv = cv;
+    return cv;
+  } catch (err) {
+    delete scope.cv;
+    throw err;
   }
+};
 
-  isOpenCVLoading = true;
-  
-  cvLoadPromise = new Promise<void>((resolve, reject) => {
-    try {
-      // Check if script already exists
-      const existing = document.querySelector('script[data-opencv]') as HTMLScriptElement | null;
-      if (existing) {
-        const waitForReady = () => {
-          const cv: any = (window as any).cv;
-          if (cv && (cv['onRuntimeInitialized'] || cv['ready'])) {
-            if (!cv['ready']) {
-              cv.onRuntimeInitialized = () => {
-                cv['ready'] = true;
-                isOpenCVLoading = false;
-                resolve();
-              };
-            } else {
-              isOpenCVLoading = false;
-              resolve();
-            }
-          } else {
-            setTimeout(waitForReady, 50);
-          }
-        };
-        waitForReady();
+const readVersion = (cv: any): string | null => {
+  try {
+    const info: string = cv.getBuildInformation?.() ?? '';
+    return info.match(/Version control:\s*(\S+)/)?.[1] ?? info.match(/OpenCV\s+(\d+\.\d+\.\d+)/)?.[1] ?? null;
+  } catch {
+    return null;
+  }
+};
+
+export function loadOpenCV(src?: string): Promise<void> {
+  if (cvLoadPromise) return cvLoadPromise;
+
+  cvLoadPromise = (async () => {
+    const urls = src ? [src] : OPENCV_URLS;
+    const failures: OpenCVSourceFailure[] = [];
+    setStatus({ state: 'loading', failures });
+
+    for (const url of urls) {
+      setStatus({ url, loadedBytes: 0, totalBytes: null });
+      try {
+        const script = await download(url).catch(err => {
+          // fetch fails with a TypeError on network and CORS errors; a script tag needs no CORS
+          if (err instanceof TypeError && typeof document !== 'undefined') return url;
+          throw err;
+        });
+        const cv = await runScript(script);
+        const modules = Object.fromEntries(OPENCV_MODULES.map(module => [module, MODULE_PROBES[module](cv)])) as Record<OpenCVModule, boolean>;
+        const version = readVersion(cv);
+        setStatus({ state: 'ready', version, modules });
         return;
+      } catch (err) {
+        console.warn(`OpenCV.js could not be loaded from ${url}:`, err);
+        failures.push({ url, error: describeError(err) });
+        setStatus({ failures: [...failures] });
       }
-
-      // Lazy load OpenCV.js only when needed
-      // Try URLs in order until one works and has ArUco support
-      const urlsToTry = src ? [src] : OPENCV_URLS;
-      let currentUrlIndex = 0;
-      
-      const tryLoadUrl = (url: string) => {
-        const script = document.createElement('script');
-        script.src = url;
-        script.async = true;
-        script.defer = true;
-        script.setAttribute('data-opencv', 'true');
-        
-        // Add loading timeout
-        const loadTimeout = setTimeout(() => {
-          console.warn(`OpenCV.js loading timeout for ${url}`);
-          script.remove();
-          // Try next URL if available
-          currentUrlIndex++;
-          if (currentUrlIndex < urlsToTry.length) {
-            console.log(`Trying fallback URL: ${urlsToTry[currentUrlIndex]}`);
-            tryLoadUrl(urlsToTry[currentUrlIndex]);
-          } else {
-            isOpenCVLoading = false;
-            reject(new Error('OpenCV.js loading timeout - all URLs failed'));
-          }
-        }, 30000); // 30 second timeout
-        
-        script.onload = () => {
-          clearTimeout(loadTimeout);
-          const cv: any = (window as any).cv;
-          if (!cv) {
-            console.warn(`OpenCV.js loaded from ${url} but window.cv is undefined`);
-            script.remove();
-            // Try next URL
-            currentUrlIndex++;
-            if (currentUrlIndex < urlsToTry.length) {
-              console.log(`Trying fallback URL: ${urlsToTry[currentUrlIndex]}`);
-              tryLoadUrl(urlsToTry[currentUrlIndex]);
-            } else {
-              isOpenCVLoading = false;
-              reject(new Error('OpenCV.js loaded but window.cv is undefined - all URLs failed'));
-            }
-            return;
-          }
-          if (cv['ready']) {
-            // Check for ArUco immediately if already ready
-            if (cv.aruco) {
-              console.log(`✅ OpenCV.js with ArUco loaded from ${url}`);
-              isOpenCVLoading = false;
-              resolve();
-            } else {
-              console.warn(`OpenCV.js from ${url} loaded but no ArUco support`);
-              script.remove();
-              // Try next URL
-              currentUrlIndex++;
-              if (currentUrlIndex < urlsToTry.length) {
-                console.log(`Trying fallback URL: ${urlsToTry[currentUrlIndex]}`);
-                tryLoadUrl(urlsToTry[currentUrlIndex]);
-              } else {
-                // Accept the build even without ArUco as last resort
-                console.warn('No OpenCV.js build with ArUco found, using last loaded build');
-                isOpenCVLoading = false;
-                resolve();
-              }
-            }
-            return;
-          }
-          cv.onRuntimeInitialized = () => {
-            cv['ready'] = true;
-            // Check for ArUco after initialization
-            if (cv.aruco) {
-              console.log(`✅ OpenCV.js with ArUco loaded from ${url}`);
-              isOpenCVLoading = false;
-              resolve();
-            } else {
-              console.warn(`OpenCV.js from ${url} initialized but no ArUco support`);
-              script.remove();
-              delete (window as any).cv;
-              // Try next URL
-              currentUrlIndex++;
-              if (currentUrlIndex < urlsToTry.length) {
-                console.log(`Trying fallback URL: ${urlsToTry[currentUrlIndex]}`);
-                tryLoadUrl(urlsToTry[currentUrlIndex]);
-              } else {
-                // Accept the build even without ArUco as last resort
-                console.warn('No OpenCV.js build with ArUco found, loading completed anyway');
-                isOpenCVLoading = false;
-                resolve();
-              }
-            }
-          };
-        };
-        
-        script.onerror = () => {
-          clearTimeout(loadTimeout);
-          console.warn(`Failed to load OpenCV.js from ${url}`);
-          script.remove();
-          // Try next URL
-          currentUrlIndex++;
-          if (currentUrlIndex < urlsToTry.length) {
-            console.log(`Trying fallback URL: ${urlsToTry[currentUrlIndex]}`);
-            tryLoadUrl(urlsToTry[currentUrlIndex]);
-          } else {
-            isOpenCVLoading = false;
-            reject(new Error('Failed to load OpenCV.js from all URLs'));
-          }
-        };
-        
-        document.head.appendChild(script);
-      };
-      
-      // Start loading from first URL
-      tryLoadUrl(urlsToTry[0]);
-    } catch (err) {
-      isOpenCVLoading = false;
-      reject(err as Error);
     }
-  });
 
-  return cvLoadPromise;
-}
+    setStatus({ state: 'failed', url: null });
+    // Allow another attempt, e.g. after the network came back
+    cvLoadPromise = null;
+    throw new Error('OpenCV.js could not be loaded from any source');
+  })();
 
-export async function ensureArucoAvailable(): Promise<boolean> {
-  await loadOpenCV();
-  const cv: any = (window as any).cv;
-  return !!(cv && cv.aruco);
+  return cvLoadPromise;
 }
@@ -0,0 +1,109 @@
+// Pairing secrets keep strangers from pushing video into the console. The console code comes
+// with a random PIN that travels in the QR link (or is typed on the phone). Before the console
+// answers a media call, the caster has to prove it knows the PIN: the console sends a random
+// challenge over the control link and the caster returns its HMAC-SHA256 under the PIN. The PIN
+// itself is never sent, so a look-alike console cannot learn it either. A paired caster also gets
+// a resume token, which it can prove instead, so it can still redial after the PIN changed.
+import type { DataConnection } from 'peerjs';
+import { sendLinkMessage } from './casterLink';
+
+export const PAIRING_SECRET_PARAM = 'pin';
+// Optional: the console slot a QR code was shown on, claimed right after pairing
+export const SLOT_PARAM = 'slot';
+
+// How long a new control link has to answer the challenge
+export const AUTH_TIMEOUT_MS = 8000;
+// A caster proves the PIN, its resume token or both; more is guessing
+const MAX_PROOFS = 2;
+
+// No 0/O or 1/I, so a PIN read off the screen is typed right
+const PIN_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const PIN_LENGTH = 8;
+
+export const generatePairingSecret = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(PIN_LENGTH));
+  return Array.from(bytes, byte => PIN_ALPHABET[byte % PIN_ALPHABET.length]).join('');
+};
+
+// Accepts the PIN the way people type it: any case, with spaces or dashes
+export const normalizePairingSecret = (input: string) => input.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// Shown as two groups of four, e.g. "K7QF-2M9P"
+export const formatPairingSecret = (secret: string) => secret.replace(/(.{4})(?=.)/g, '$1-');
+
+const toHex = (bytes: ArrayBuffer | Uint8Array) =>
+  Array.from(new Uint8Array(bytes), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string) => new Uint8Array((hex.match(/../g) ?? []).map(pair => parseInt(pair, 16)));
+
+const importKey = (secret: string) =>
+  crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+
+export const generateResumeToken = () => toHex(crypto.getRandomValues(new Uint8Array(16)));
+
+// Caster side: the proof for a challenge
+export const signChallenge = async (secret: string, nonce: string): Promise<string> => {
+  const key = await importKey(secret);
+  return toHex(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(nonce)));
+};
+
+const verifyProof = async (secret: string, nonce: string, proof: string): Promise<boolean> => {
+  const key = await importKey(secret);
+  return crypto.subtle.verify('HMAC', key, fromHex(proof), new TextEncoder().encode(nonce));
+};
+
+export interface PairingOutcome {
+  // Why the link was turned away; null once paired
+  rejection: string | null;
+  // The secrets the caster proved
+  proven: string[];
+}
+
+// Console side: challenges a new control link, which passes if any of its proofs matches one of
+// `secrets` (the PIN and the resume token of the caster it claims to be). Only the first response
+// counts, so one challenge cannot be used to try many PINs. Resolves once paired, leaving the
+// welcome to the caller, or with the reason for rejecting it; a rejected link is told why and
+// closed shortly after.
+export const authenticateCaster = (conn: DataConnection, secrets: string[]): Promise<PairingOutcome> =>
+  new Promise(resolve => {
+    const nonce = toHex(crypto.getRandomValues(new Uint8Array(16)));
+    let settled = false;
+
+    const finish = (rejection: string | null, proven: string[] = []) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      conn.off('open', onOpen);
+      conn.off('data', onData);
+      conn.off('close', onClose);
+      if (rejection !== null) {
+        sendLinkMessage(conn, { type: 'auth-failed', reason: rejection });
+        setTimeout(() => conn.close(), 500);
+      }
+      resolve({ rejection, proven });
+    };
+
+    const onOpen = () => sendLinkMessage(conn, { type: 'auth-challenge', nonce });
+    const onData = (data: any) => {
+      if (data?.type !== 'auth-response') return;
+      conn.off('data', onData);
+      if (!Array.isArray(data.proofs) || data.proofs.length > MAX_PROOFS) {
+        finish('Invalid pairing response.');
+        return;
+      }
+      const proofs: string[] = data.proofs.filter((proof: unknown) => typeof proof === 'string');
+      Promise.all(secrets.map(secret => Promise.all(proofs.map(proof => verifyProof(secret, nonce, proof)))))
+        .then(results => {
+          const proven = secrets.filter((_, i) => results[i].includes(true));
+          finish(proven.length ? null : 'Wrong pairing PIN.', proven);
+        })
+        .catch(() => finish('Wrong pairing PIN.'));
+    };
+    const onClose = () => finish('Link closed before pairing.');
+    const timer = setTimeout(() => finish('No pairing PIN received.'), AUTH_TIMEOUT_MS);
+
+    conn.on('data', onData);
+    conn.on('close', onClose);
+    if (conn.open) onOpen();
+    else conn.on('open', onOpen);
+  });
@@ -0,0 +1,374 @@
+// Stitches two cameras that each see part of a wide whiteboard into one image. The right camera
+// is registered onto the left one with a homography, from ArUco markers both can see or, failing
+// that, from ORB feature matches. When the board's corner markers are known (0 and 3 usually on
+// the left camera, 1 and 2 on the right) the result is warped into board space like the
+// rectified view; otherwise it stays in the left camera's perspective. The overlap is feathered
+// and the right image's gain matched to the left.
+import { detectMarkers, DetectedMarker } from './aruco';
+import { CORNER_MARKER_IDS } from './boardRectifier';
+import { createCanvas, context2d, readMat, AnyCanvas } from './canvas';
+
+// Slot id the stitched frames are sent to the Python bridge under
+export const PANORAMA_SLOT_ID = 'panorama';
+
+export type StitchState = 'searching' | 'tracking' | 'holding';
+export type StitchMethod = 'markers' | 'features';
+
+export interface StitchResult {
+  state: StitchState;
+  // How the current registration was found, and from how many shared markers or inlier matches
+  method: StitchMethod | null;
+  matches: number;
+  // True when all four board corners are known and the image is in board space
+  boardSpace: boolean;
+}
+
+export interface StitchOptions {
+  // Which registration methods the loaded OpenCV build supports
+  markers: boolean;
+  features: boolean;
+}
+
+type Matrix = number[];
+type Point = [number, number];
+type Size = [number, number];
+
+// Registration and warping run on frames of at most this width
+const MAX_WORK_WIDTH = 1280;
+const MAX_OUTPUT_WIDTH = 2400;
+const MAX_OUTPUT_HEIGHT = 1600;
+// Feature matching is slow; while markers give no registration it is retried this often
+const FEATURE_INTERVAL_MS = 2000;
+const ORB_FEATURES = 1500;
+const MIN_FEATURE_INLIERS = 15;
+const HOLD_TIMEOUT_MS = 10000;
+// A registration that scales the right image more than this is treated as a bad match
+const MAX_SCALE_CHANGE = 4;
+// ...as is one that puts a corner of the right image more than this many frame sizes beside the
+// left frame
+const MAX_REACH = 2;
+
+const multiply = (a: Matrix, b: Matrix): Matrix => {
+  const out: Matrix = [];
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      out.push(a[row * 3] * b[col] + a[row * 3 + 1] * b[3 + col] + a[row * 3 + 2] * b[6 + col]);
+    }
+  }
+  return out;
+};
+
+const apply = (m: Matrix, [x, y]: Point): Point => {
+  const w = m[6] * x + m[7] * y + m[8];
+  return [(m[0] * x + m[1] * y + m[2]) / w, (m[3] * x + m[4] * y + m[5]) / w];
+};
+
+const distance = ([ax, ay]: Point, [bx, by]: Point) => Math.hypot(ax - bx, ay - by);
+
+const outline = ([width, height]: Size): Point[] => [[0, 0], [width, 0], [width, height], [0, height]];
+
+// Plausible camera-to-camera mapping: not mirrored, collapsed or blown up, and keeping the whole
+// right frame in front of the camera (w > 0) and near the left frame. A strong perspective term
+// passes the determinant check but throws the far corners out towards infinity.
+const isSane = (h: Matrix, [fromWidth, fromHeight]: Size, [toWidth, toHeight]: Size) => {
+  const det = (h[0] * h[4] - h[1] * h[3]) / (h[8] * h[8]);
+  if (!Number.isFinite(det) || det <= 1 / (MAX_SCALE_CHANGE * MAX_SCALE_CHANGE) || det >= MAX_SCALE_CHANGE * MAX_SCALE_CHANGE) return false;
+  return outline([fromWidth, fromHeight]).every(([x, y]) => {
+    if (!(h[6] * x + h[7] * y + h[8] > 0)) return false;
+    const [px, py] = apply(h, [x, y]);
+    return Math.abs(px - toWidth / 2) < (MAX_REACH + 0.5) * toWidth && Math.abs(py - toHeight / 2) < (MAX_REACH + 0.5) * toHeight;
+  });
+};
+
+// Homography from point pairs in frames of the given sizes; null when OpenCV finds none or it
+// is implausible. The caller keeps the Mats.
+const findHomography = (cv: any, from: Point[], to: Point[], fromSize: Size, toSize: Size): { h: Matrix; inliers: number } | null => {
+  const src = cv.matFromArray(from.length, 1, cv.CV_32FC2, from.flat());
+  const dst = cv.matFromArray(to.length, 1, cv.CV_32FC2, to.flat());
+  const mask = new cv.Mat();
+  let result: any = null;
+  try {
+    result = cv.findHomography(src, dst, cv.RANSAC, 4, mask);
+    if (!result || result.empty() || result.rows !== 3) return null;
+    const h = Array.from(result.data64F as Float64Array);
+    return isSane(h, fromSize, toSize) ? { h, inliers: cv.countNonZero(mask) } : null;
+  } finally {
+    src.delete();
+    dst.delete();
+    mask.delete();
+    result?.delete();
+  }
+};
+
+// Every corner of every marker id seen by both cameras
+const markerPairs = (left: DetectedMarker[], right: DetectedMarker[]) => {
+  const from: Point[] = [];
+  const to: Point[] = [];
+  let shared = 0;
+  right.forEach(marker => {
+    const match = left.find(candidate => candidate.id === marker.id);
+    if (!match) return;
+    shared++;
+    from.push(...marker.corners);
+    to.push(...match.corners);
+  });
+  return { from, to, shared };
+};
+
+const orbFeatures = (cv: any, image: any) => {
+  const gray = new cv.Mat();
+  const noMask = new cv.Mat();
+  const orb = new cv.ORB(ORB_FEATURES);
+  const keypoints = new cv.KeyPointVector();
+  const descriptors = new cv.Mat();
+  try {
+    cv.cvtColor(image, gray, cv.COLOR_RGBA2GRAY);
+    orb.detectAndCompute(gray, noMask, keypoints, descriptors, false);
+    return { keypoints, descriptors };
+  } finally {
+    gray.delete();
+    noMask.delete();
+    orb.delete();
+  }
+};
+
+const featureHomography = (cv: any, left: any, right: any) => {
+  const a = orbFeatures(cv, right);
+  const b = orbFeatures(cv, left);
+  const matcher = new cv.BFMatcher(cv.NORM_HAMMING, true);
+  const matches = new cv.DMatchVector();
+  try {
+    if (a.descriptors.rows === 0 || b.descriptors.rows === 0) return null;
+    matcher.match(a.descriptors, b.descriptors, matches);
+    const from: Point[] = [];
+    const to: Point[] = [];
+    for (let i = 0; i < matches.size(); i++) {
+      const match = matches.get(i);
+      const p = a.keypoints.get(match.queryIdx).pt;
+      const q = b.keypoints.get(match.trainIdx).pt;
+      from.push([p.x, p.y]);
+      to.push([q.x, q.y]);
+    }
+    if (from.length < MIN_FEATURE_INLIERS) return null;
+    const found = findHomography(cv, from, to, [right.cols, right.rows], [left.cols, left.rows]);
+    return found && found.inliers >= MIN_FEATURE_INLIERS ? found : null;
+  } finally {
+    [a, b].forEach(({ keypoints, descriptors }) => {
+      keypoints.delete();
+      descriptors.delete();
+    });
+    matcher.delete();
+    matches.delete();
+  }
+};
+
+// Feathering weights: distance to the nearest image edge, so each camera fades out towards its
+// own border in the overlap
+const edgeWeights = (cv: any, width: number, height: number) => {
+  const data = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const dy = Math.min(y + 0.5, height - y - 0.5);
+    for (let x = 0; x < width; x++) data[y * width + x] = Math.min(dy, x + 0.5, width - x - 0.5);
+  }
+  return cv.matFromArray(height, width, cv.CV_32FC1, data);
+};
+
+interface HeldCorner {
+  point: Point;
+  seenAt: number;
+}
+
+export class PanoramaStitcher {
+  // Maps right working-frame pixels onto left working-frame pixels
+  private homography: Matrix | null = null;
+  private method: StitchMethod | null = null;
+  private matches = 0;
+  private featuresTriedAt = -Infinity;
+  // Board corners in left working-frame pixels
+  private corners: (HeldCorner | null)[] = [null, null, null, null];
+  private grabs = [createCanvas(), createCanvas()];
+  private weights: { key: string; mat: any }[] = [];
+
+  reset() {
+    this.homography = null;
+    this.method = null;
+    this.matches = 0;
+    this.featuresTriedAt = -Infinity;
+    this.corners = [null, null, null, null];
+    this.weights.forEach(({ mat }) => mat.delete());
+    this.weights = [];
+  }
+
+  // Registers the two frames and, once registered, draws the stitched board into `output`
+  process(
+    cv: any,
+    left: CanvasImageSource, leftWidth: number, leftHeight: number,
+    right: CanvasImageSource, rightWidth: number, rightHeight: number,
+    output: AnyCanvas,
+    options: StitchOptions,
+  ): StitchResult {
+    const l = this.grab(cv, 0, left, leftWidth, leftHeight);
+    const r = this.grab(cv, 1, right, rightWidth, rightHeight);
+    try {
+      const now = performance.now();
+      const leftMarkers = options.markers ? detectMarkers(cv, l) : [];
+      const rightMarkers = options.markers ? detectMarkers(cv, r) : [];
+      const registered = this.register(cv, l, r, leftMarkers, rightMarkers, options, now);
+      if (!this.homography) {
+        return { state: 'searching', method: null, matches: 0, boardSpace: false };
+      }
+
+      this.trackCorners(leftMarkers, rightMarkers, now);
+      const board = this.corners.every(corner => corner !== null) ? this.corners.map(corner => corner!.point) : null;
+      const { transform, width, height } = board ? this.boardSpace(cv, board) : this.cameraSpace(l, r);
+      this.composite(cv, l, r, transform, width, height, output);
+      return { state: registered ? 'tracking' : 'holding', method: this.method, matches: this.matches, boardSpace: !!board };
+    } finally {
+      l.delete();
+      r.delete();
+    }
+  }
+
+  private grab(cv: any, index: number, source: CanvasImageSource, sourceWidth: number, sourceHeight: number) {
+    const scale = Math.min(1, MAX_WORK_WIDTH / sourceWidth);
+    const canvas = this.grabs[index];
+    canvas.width = Math.round(sourceWidth * scale);
+    canvas.height = Math.round(sourceHeight * scale);
+    context2d(canvas, true).drawImage(source, 0, 0, canvas.width, canvas.height);
+    return readMat(cv, canvas);
+  }
+
+  // Markers are cheap and tried on every frame; features only when no marker is shared
+  private register(cv: any, l: any, r: any, leftMarkers: DetectedMarker[], rightMarkers: DetectedMarker[], options: StitchOptions, now: number) {
+    const pairs = markerPairs(leftMarkers, rightMarkers);
+    const byMarkers = pairs.shared > 0 ? findHomography(cv, pairs.from, pairs.to, [r.cols, r.rows], [l.cols, l.rows]) : null;
+    if (byMarkers) return this.accept(byMarkers.h, 'markers', pairs.shared);
+
+    if (options.features && now - this.featuresTriedAt > FEATURE_INTERVAL_MS) {
+      this.featuresTriedAt = now;
+      const byFeatures = featureHomography(cv, l, r);
+      if (byFeatures) return this.accept(byFeatures.h, 'features', byFeatures.inliers);
+    }
+    return false;
+  }
+
+  private accept(h: Matrix, method: StitchMethod, matches: number) {
+    this.homography = h;
+    this.method = method;
+    this.matches = matches;
+    return true;
+  }
+
+  private trackCorners(leftMarkers: DetectedMarker[], rightMarkers: DetectedMarker[], now: number) {
+    CORNER_MARKER_IDS.forEach((id, i) => {
+      const inLeft = leftMarkers.find(marker => marker.id === id);
+      const inRight = rightMarkers.find(marker => marker.id === id);
+      const point = inLeft ? inLeft.corners[i] : inRight ? apply(this.homography!, inRight.corners[i]) : null;
+      if (point) this.corners[i] = { point, seenAt: now };
+      else if (this.corners[i] && now - this.corners[i]!.seenAt > HOLD_TIMEOUT_MS) this.corners[i] = null;
+    });
+  }
+
+  // Left-frame pixels to a flat board image with the board's own aspect ratio
+  private boardSpace(cv: any, [tl, tr, br, bl]: Point[]) {
+    const boardWidth = (distance(tl, tr) + distance(bl, br)) / 2;
+    const boardHeight = (distance(tl, bl) + distance(tr, br)) / 2;
+    const scale = Math.min(1, MAX_OUTPUT_WIDTH / boardWidth, MAX_OUTPUT_HEIGHT / boardHeight);
+    const width = Math.max(1, Math.round(boardWidth * scale));
+    const height = Math.max(1, Math.round(boardHeight * scale));
+    const src = cv.matFromArray(4, 1, cv.CV_32FC2, [tl, tr, br, bl].flat());
+    const dst = cv.matFromArray(4, 1, cv.CV_32FC2, [0, 0, width, 0, width, height, 0, height]);
+    const m = cv.getPerspectiveTransform(src, dst);
+    try {
+      return { transform: Array.from(m.data64F as Float64Array), width, height };
+    } finally {
+      src.delete();
+      dst.delete();
+      m.delete();
+    }
+  }
+
+  // Left-frame pixels shifted and scaled so both frames fit
+  private cameraSpace(l: any, r: any) {
+    const points = [...outline([l.cols, l.rows]), ...outline([r.cols, r.rows]).map(point => apply(this.homography!, point))];
+    const minX = Math.min(...points.map(([x]) => x));
+    const minY = Math.min(...points.map(([, y]) => y));
+    const spanX = Math.max(...points.map(([x]) => x)) - minX;
+    const spanY = Math.max(...points.map(([, y]) => y)) - minY;
+    const scale = Math.min(1, MAX_OUTPUT_WIDTH / spanX, MAX_OUTPUT_HEIGHT / spanY);
+    return {
+      transform: [scale, 0, -minX * scale, 0, scale, -minY * scale, 0, 0, 1],
+      width: Math.max(1, Math.round(spanX * scale)),
+      height: Math.max(1, Math.round(spanY * scale)),
+    };
+  }
+
+  private weightsFor(cv: any, width: number, height: number) {
+    const key = `${width}x${height}`;
+    let entry = this.weights.find(candidate => candidate.key === key);
+    if (!entry) {
+      entry = { key, mat: edgeWeights(cv, width, height) };
+      this.weights.push(entry);
+      // Two cameras, and maybe a resolution change on either
+      if (this.weights.length > 4) this.weights.shift()!.mat.delete();
+    }
+    return entry.mat;
+  }
+
+  private composite(cv: any, l: any, r: any, transform: Matrix, width: number, height: number, output: AnyCanvas) {
+    const size = new cv.Size(width, height);
+    const toLeft = [transform, multiply(transform, this.homography!)];
+    // Allocated up front, so a failing warp still frees the other image's Mats
+    const warped = [l, r].map((image, i) => ({
+      image,
+      m: cv.matFromArray(3, 3, cv.CV_64F, toLeft[i]),
+      pixels: new cv.Mat(),
+      weight: new cv.Mat(),
+    }));
+
+    try {
+      warped.forEach(({ image, m, pixels, weight }) => {
+        cv.warpPerspective(image, pixels, m, size, cv.INTER_LINEAR, cv.BORDER_CONSTANT, new cv.Scalar());
+        cv.warpPerspective(this.weightsFor(cv, image.cols, image.rows), weight, m, size, cv.INTER_LINEAR, cv.BORDER_CONSTANT, new cv.Scalar());
+      });
+      const [a, b] = warped.map(({ pixels }) => pixels.data as Uint8Array);
+      const [wa, wb] = warped.map(({ weight }) => weight.data32F as Float32Array);
+      const count = width * height;
+
+      // Gain of the right camera, from the brightness of both in the overlap
+      let sumA = 0;
+      let sumB = 0;
+      for (let p = 0; p < count; p++) {
+        if (wa[p] <= 0 || wb[p] <= 0) continue;
+        const i = p * 4;
+        sumA += a[i] + a[i + 1] + a[i + 2];
+        sumB += b[i] + b[i + 1] + b[i + 2];
+      }
+      const gain = sumA > 0 && sumB > 0 ? Math.min(1.5, Math.max(0.67, sumA / sumB)) : 1;
+
+      const blended = new ImageData(width, height);
+      const out = blended.data;
+      for (let p = 0; p < count; p++) {
+        const i = p * 4;
+        const total = wa[p] + wb[p];
+        if (total > 0) {
+          const fa = wa[p] / total;
+          const fb = (wb[p] / total) * gain;
+          out[i] = a[i] * fa + b[i] * fb;
+          out[i + 1] = a[i + 1] * fa + b[i + 1] * fb;
+          out[i + 2] = a[i + 2] * fa + b[i + 2] * fb;
+        }
+        out[i + 3] = 255;
+      }
+      output.width = width;
+      output.height = height;
+      context2d(output).putImageData(blended, 0, 0);
+    } finally {
+      warped.forEach(({ m, pixels, weight }) => {
+        m.delete();
+        pixels.delete();
+        weight.delete();
+      });
+    }
+  }
+}
@@ -0,0 +1,60 @@
+// Minimal PDF writer for image-only documents: one JPEG per page, scaled to the page width.
+
+export interface PdfImagePage {
+  jpeg: Blob;
+  width: number;
+  height: number;
+}
+
+// A4 landscape width in points; each page gets the height that keeps its image's aspect ratio
+const PAGE_WIDTH_PT = 842;
+
+export const createImagePdf = async (pages: PdfImagePage[]): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  // Objects are numbered 1..n in the order they are written
+  const beginObject = () => {
+    offsets.push(length);
+    write(`${offsets.length} 0 obj\n`);
+  };
+
+  // Fixed layout: 1 catalog, 2 page tree, then page, content and image objects per page
+  const pageObjectIds = pages.map((_, i) => 3 + i * 3);
+
+  write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+  beginObject();
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+  beginObject();
+  write(`<< /Type /Pages /Count ${pages.length} /Kids [${pageObjectIds.map(id => `${id} 0 R`).join(' ')}] >>\nendobj\n`);
+
+  for (const [i, page] of pages.entries()) {
+    const pageId = pageObjectIds[i];
+    const pageHeight = Math.round((PAGE_WIDTH_PT * page.height) / page.width);
+    const content = `q ${PAGE_WIDTH_PT} 0 0 ${pageHeight} 0 0 cm /Im0 Do Q`;
+    const jpeg = new Uint8Array(await page.jpeg.arrayBuffer());
+
+    beginObject();
+    write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH_PT} ${pageHeight}] /Contents ${pageId + 1} 0 R /Resources << /XObject << /Im0 ${pageId + 2} 0 R >> >> >>\nendobj\n`);
+    beginObject();
+    write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+    beginObject();
+    write(`<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`);
+    write(jpeg);
+    write('\nendstream\nendobj\n');
+  }
+
+  const xrefOffset = length;
+  write(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach(offset => write(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  write(`trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(parts, { type: 'application/pdf' });
+};
@@ -0,0 +1,103 @@
+import type { Peer, PeerOptions } from 'peerjs';
+
+// Where PeerJS signals and which STUN/TURN servers WebRTC uses. Empty fields fall back to the
+// PeerJS cloud server and PeerJS' default ICE servers. Build-time defaults come from env, the
+// console can override them in its settings, and casters pick up the console's settings from the
+// pairing link so both ends always talk to the same server.
+export interface PeerSettings {
+  host: string;
+  port: number | null;
+  path: string;
+  key: string;
+  secure: boolean | null;
+  iceServers: RTCIceServer[];
+}
+
+const STORAGE_KEY = 'peerSettings';
+// Query parameter of the pairing link that carries the console's settings
+export const PEER_SETTINGS_PARAM = 'peer';
+
+const parseIceServers = (json: string): RTCIceServer[] => {
+  try {
+    const parsed = JSON.parse(json || '[]');
+    return Array.isArray(parsed) ? parsed.filter(server => server && server.urls) : [];
+  } catch {
+    console.warn('Ignoring invalid PEER_ICE_SERVERS, expected a JSON array of RTCIceServer');
+    return [];
+  }
+};
+
+export const ENV_PEER_SETTINGS: PeerSettings = {
+  host: process.env.PEER_HOST || '',
+  port: Number(process.env.PEER_PORT) || null,
+  path: process.env.PEER_PATH || '',
+  key: process.env.PEER_KEY || '',
+  secure: process.env.PEER_SECURE ? process.env.PEER_SECURE === 'true' : null,
+  iceServers: parseIceServers(process.env.PEER_ICE_SERVERS || ''),
+};
+
+const normalize = (value: any): PeerSettings | null => {
+  if (!value || typeof value !== 'object') return null;
+  return {
+    host: typeof value.host === 'string' ? value.host.trim() : '',
+    port: Number(value.port) > 0 ? Number(value.port) : null,
+    path: typeof value.path === 'string' ? value.path.trim() : '',
+    key: typeof value.key === 'string' ? value.key.trim() : '',
+    secure: typeof value.secure === 'boolean' ? value.secure : null,
+    iceServers: Array.isArray(value.iceServers) ? value.iceServers.filter((server: any) => server && server.urls) : [],
+  };
+};
+
+const readStored = (): PeerSettings | null => {
+  try {
+    return normalize(JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null'));
+  } catch {
+    return null;
+  }
+};
+
+// Settings shared through a pairing link apply to this page only and are never stored.
+let sharedSettings: PeerSettings | null = null;
+
+export const getPeerSettings = (): PeerSettings => sharedSettings ?? readStored() ?? ENV_PEER_SETTINGS;
+
+export const savePeerSettings = (settings: PeerSettings | null) => {
+  try {
+    if (settings) localStorage.setItem(STORAGE_KEY, JSON.stringify(normalize(settings)));
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Storage may be unavailable (private mode); nothing to keep then.
+  }
+};
+
+// Encodes the active settings for a pairing link, or null when they are just the build defaults.
+export const encodeSharedPeerSettings = (): string | null => {
+  const settings = getPeerSettings();
+  return JSON.stringify(settings) === JSON.stringify(ENV_PEER_SETTINGS) ? null : JSON.stringify(settings);
+};
+
+export const applySharedPeerSettings = (encoded: string | null) => {
+  if (!encoded) return;
+  try {
+    sharedSettings = normalize(JSON.parse(encoded));
+  } catch {
+    console.warn('Ignoring invalid peer settings in the pairing link');
+  }
+};
+
+export const toPeerOptions = (settings: PeerSettings): PeerOptions => {
+  const options: PeerOptions = {};
+  if (settings.host) options.host = settings.host;
+  if (settings.port) options.port = settings.port;
+  if (settings.path) options.path = settings.path;
+  if (settings.key) options.key = settings.key;
+  if (settings.secure !== null) options.secure = settings.secure;
+  if (settings.iceServers.length > 0) options.config = { iceServers: settings.iceServers };
+  return options;
+};
+
+// Every Peer in the app is created here so both roles use the same signaling and ICE setup.
+export const createPeer = (id?: string): Peer => {
+  const options = toPeerOptions(getPeerSettings());
+  return id ? new window.Peer(id, options) : new window.Peer(options);
+};
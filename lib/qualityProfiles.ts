@@ -0,0 +1,137 @@
+// Stream quality profiles for casters. A profile sets the capture constraints and track content
+// hint on the phone, the bitrate and frame rate caps of its RTP sender, and the codec order the
+// console asks for when it answers the call. Without them the phone picks a low default
+// resolution and WebRTC trades detail for frame rate, smearing handwriting.
+
+export type QualityProfileId = 'handwriting' | 'motion' | 'low-bandwidth';
+
+export interface QualityProfile {
+  id: QualityProfileId;
+  label: string;
+  description: string;
+  width: number;
+  height: number;
+  frameRate: number;
+  // Bits per second
+  maxBitrate: number;
+  // Codec mime types, most preferred first; others follow in the browser's order
+  codecs: string[];
+  contentHint: 'detail' | 'text' | 'motion';
+  // What the encoder gives up first when bandwidth runs short
+  degradationPreference: RTCDegradationPreference;
+}
+
+export const QUALITY_PROFILES: Record<QualityProfileId, QualityProfile> = {
+  handwriting: {
+    id: 'handwriting',
+    label: 'Handwriting',
+    description: '1080p at 15 fps, high bitrate; keeps strokes sharp',
+    width: 1920,
+    height: 1080,
+    frameRate: 15,
+    maxBitrate: 6_000_000,
+    codecs: ['video/VP9', 'video/H264', 'video/VP8'],
+    contentHint: 'detail',
+    degradationPreference: 'maintain-resolution',
+  },
+  motion: {
+    id: 'motion',
+    label: 'Motion',
+    description: '720p at 30 fps; smooth movement',
+    width: 1280,
+    height: 720,
+    frameRate: 30,
+    maxBitrate: 2_500_000,
+    codecs: ['video/H264', 'video/VP8', 'video/VP9'],
+    contentHint: 'motion',
+    degradationPreference: 'maintain-framerate',
+  },
+  'low-bandwidth': {
+    id: 'low-bandwidth',
+    label: 'Low bandwidth',
+    description: '480p at 15 fps, capped at 500 kbps',
+    width: 854,
+    height: 480,
+    frameRate: 15,
+    maxBitrate: 500_000,
+    codecs: ['video/VP9', 'video/VP8', 'video/H264'],
+    contentHint: 'detail',
+    degradationPreference: 'balanced',
+  },
+};
+
+export const DEFAULT_QUALITY_PROFILE: QualityProfileId = 'handwriting';
+
+const STORAGE_KEY = 'qualityProfile';
+
+export const isQualityProfileId = (value: unknown): value is QualityProfileId =>
+  typeof value === 'string' && value in QUALITY_PROFILES;
+
+export const loadQualityProfile = (): QualityProfileId => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isQualityProfileId(stored)) return stored;
+  } catch {
+    // Storage may be unavailable (private mode); use the default.
+  }
+  return DEFAULT_QUALITY_PROFILE;
+};
+
+export const saveQualityProfile = (id: QualityProfileId) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, id);
+  } catch {
+    // Storage may be unavailable (private mode); the choice lasts for this page only.
+  }
+};
+
+// Capture constraints; `ideal` so phones that cannot reach them still stream
+export const captureConstraints = (profile: QualityProfile, facingMode: 'user' | 'environment'): MediaTrackConstraints => ({
+  facingMode: { ideal: facingMode },
+  width: { ideal: profile.width },
+  height: { ideal: profile.height },
+  frameRate: { ideal: profile.frameRate, max: profile.frameRate },
+});
+
+export const applyContentHint = (track: MediaStreamTrack | undefined, profile: QualityProfile) => {
+  if (track && 'contentHint' in track) track.contentHint = profile.contentHint;
+};
+
+// Orders the codecs of a transceiver before the local description is created. The answerer's
+// order decides what the other side sends.
+export const preferCodecs = (transceiver: RTCRtpTransceiver, profile: QualityProfile) => {
+  const capabilities = typeof RTCRtpReceiver.getCapabilities === 'function' ? RTCRtpReceiver.getCapabilities('video') : null;
+  if (!capabilities || typeof transceiver.setCodecPreferences !== 'function') return;
+  const rank = (codec: RTCRtpCodec) => {
+    const index = profile.codecs.findIndex(mimeType => mimeType.toLowerCase() === codec.mimeType.toLowerCase());
+    return index === -1 ? profile.codecs.length : index;
+  };
+  try {
+    // Stable sort, so RTX/RED/FEC entries stay in the list
+    transceiver.setCodecPreferences([...capabilities.codecs].sort((a, b) => rank(a) - rank(b)));
+  } catch (err) {
+    console.warn('Could not set codec preferences:', err);
+  }
+};
+
+// Caps bitrate and frame rate of the video sender. Needs a negotiated connection, since the
+// encodings only exist from then on.
+export const applySenderLimits = async (pc: RTCPeerConnection, profile: QualityProfile) => {
+  const sender = pc.getSenders().find(candidate => candidate.track?.kind === 'video');
+  if (!sender || !sender.getParameters().encodings?.length) return;
+  const limit = (withPreference: boolean) => {
+    const parameters = sender.getParameters();
+    parameters.encodings.forEach(encoding => {
+      encoding.maxBitrate = profile.maxBitrate;
+      encoding.maxFramerate = profile.frameRate;
+    });
+    if (withPreference) parameters.degradationPreference = profile.degradationPreference;
+    return sender.setParameters(parameters);
+  };
+  try {
+    await limit(true);
+  } catch {
+    // Some browsers reject degradationPreference; the bitrate cap matters more
+    await limit(false).catch(err => console.warn('Could not limit the video sender:', err));
+  }
+};
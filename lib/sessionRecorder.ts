@@ -0,0 +1,168 @@
+// Records every streaming slot at once and grabs full-resolution snapshots of all of them.
+// Recordings are one WebM per slot plus a manifest whose per-slot start times (epoch ms) let a
+// replay line the files up again.
+import type { CameraIdentity } from './calibration';
+import { createZip } from './zip';
+
+export interface RecordableSlot {
+  slotId: string;
+  label: string;
+  camera: CameraIdentity | null;
+  stream: MediaStream;
+}
+
+export interface ManifestSlot {
+  slotId: string;
+  label: string;
+  camera: CameraIdentity | null;
+  file: string;
+  // Epoch ms of the first recorded / captured frame
+  startedAt: number;
+  width: number;
+  height: number;
+}
+
+export interface SessionManifest {
+  kind: 'recording' | 'snapshot';
+  sessionId: string;
+  startedAt: number;
+  stoppedAt: number;
+  mimeType: string;
+  slots: ManifestSlot[];
+}
+
+export interface RecordedFile {
+  name: string;
+  blob: Blob;
+}
+
+const MIME_CANDIDATES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+const VIDEO_BITS_PER_SECOND = 8_000_000;
+// How often recorders hand over data, so a crash loses at most this much
+const TIMESLICE_MS = 1000;
+
+const pickMimeType = () => MIME_CANDIDATES.find(type => MediaRecorder.isTypeSupported(type)) || '';
+
+export const sessionId = (date = new Date()) =>
+  date.toISOString().replace(/[:.]/g, '-').replace('T', '_').slice(0, 19);
+
+export const slotFileName = (slot: { slotId: string; label: string }, extension: string) =>
+  `${slot.slotId}-${slot.label.replace(/[^a-z0-9-]+/gi, '_')}.${extension}`;
+
+const trackSize = (stream: MediaStream) => {
+  const settings = stream.getVideoTracks()[0]?.getSettings() ?? {};
+  return { width: settings.width ?? 0, height: settings.height ?? 0 };
+};
+
+interface ActiveRecorder {
+  slot: RecordableSlot;
+  recorder: MediaRecorder;
+  chunks: Blob[];
+  startedAt: number;
+  stopped: Promise<void>;
+}
+
+export class SessionRecorder {
+  readonly sessionId = sessionId();
+  private recorders: ActiveRecorder[];
+  private mimeType = pickMimeType();
+  private startedAt = 0;
+
+  constructor(slots: RecordableSlot[]) {
+    // Recorders are all created up front so starting them takes as little time as possible
+    this.recorders = slots.map(slot => {
+      const recorder = new MediaRecorder(slot.stream, { mimeType: this.mimeType || undefined, videoBitsPerSecond: VIDEO_BITS_PER_SECOND });
+      const active: ActiveRecorder = { slot, recorder, chunks: [], startedAt: 0, stopped: Promise.resolve() };
+      recorder.ondataavailable = (e) => e.data.size > 0 && active.chunks.push(e.data);
+      recorder.onstart = (e) => { active.startedAt = performance.timeOrigin + e.timeStamp; };
+      // A slot whose camera drops stops on its own; the others keep going
+      active.stopped = new Promise(resolve => { recorder.onstop = () => resolve(); });
+      return active;
+    });
+  }
+
+  start() {
+    this.startedAt = Date.now();
+    this.recorders.forEach(({ recorder }) => recorder.start(TIMESLICE_MS));
+  }
+
+  async stop(): Promise<{ manifest: SessionManifest; files: RecordedFile[] }> {
+    this.recorders.forEach(({ recorder }) => recorder.state !== 'inactive' && recorder.stop());
+    await Promise.all(this.recorders.map(active => active.stopped));
+
+    const files = this.recorders.map(({ slot, chunks }) => ({
+      // Downloaded side by side, so the session id keeps files of different takes apart
+      name: `${this.sessionId}_${slotFileName(slot, 'webm')}`,
+      blob: new Blob(chunks, { type: this.mimeType || 'video/webm' }),
+    }));
+    const manifest: SessionManifest = {
+      kind: 'recording',
+      sessionId: this.sessionId,
+      startedAt: this.startedAt,
+      stoppedAt: Date.now(),
+      mimeType: this.mimeType || 'video/webm',
+      slots: this.recorders.map(({ slot, startedAt }, i) => ({
+        slotId: slot.slotId,
+        label: slot.label,
+        camera: slot.camera,
+        file: files[i].name,
+        startedAt: startedAt || this.startedAt,
+        ...trackSize(slot.stream),
+      })),
+    };
+    return { manifest, files };
+  }
+}
+
+// Grabs the next frame of a stream at the track's full resolution.
+const grabFrame = async (stream: MediaStream): Promise<{ canvas: HTMLCanvasElement; capturedAt: number }> => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = stream;
+  try {
+    await video.play();
+    if (video.videoWidth === 0) await new Promise(resolve => video.addEventListener('loadeddata', resolve, { once: true }));
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')!.drawImage(video, 0, 0);
+    return { canvas, capturedAt: Date.now() };
+  } finally {
+    video.pause();
+    video.srcObject = null;
+  }
+};
+
+const canvasToPng = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) => canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('PNG encoding failed')), 'image/png'));
+
+// Captures one PNG per slot, all grabbed together, and packs them with a manifest into a zip.
+export const snapshotSlots = async (slots: RecordableSlot[]): Promise<{ name: string; zip: Blob }> => {
+  const id = sessionId();
+  const startedAt = Date.now();
+  const frames = await Promise.all(slots.map(slot => grabFrame(slot.stream)));
+  const pngs = await Promise.all(frames.map(frame => canvasToPng(frame.canvas)));
+
+  const manifest: SessionManifest = {
+    kind: 'snapshot',
+    sessionId: id,
+    startedAt,
+    stoppedAt: Date.now(),
+    mimeType: 'image/png',
+    slots: slots.map((slot, i) => ({
+      slotId: slot.slotId,
+      label: slot.label,
+      camera: slot.camera,
+      file: slotFileName(slot, 'png'),
+      startedAt: frames[i].capturedAt,
+      width: frames[i].canvas.width,
+      height: frames[i].canvas.height,
+    })),
+  };
+  const zip = await createZip([
+    ...manifest.slots.map((slot, i) => ({ name: slot.file, data: pngs[i] })),
+    { name: 'manifest.json', data: new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' }) },
+  ]);
+  return { name: `snapshot-${id}.zip`, zip };
+};
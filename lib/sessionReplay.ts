@@ -0,0 +1,264 @@
+// Replays a recorded session through the console. Each slot's WebM plays in its own video
+// element whose captureStream() takes the place of the live stream, so display, frame forwarding,
+// keyframes and board views run exactly as they do live. One session clock drives all files; the
+// manifest's per-slot start times place each file on it, and videos that drift off it are seeked
+// back.
+import type { CameraIdentity } from './calibration';
+import type { ManifestSlot, SessionManifest } from './sessionRecorder';
+
+export interface ReplaySlot {
+  slotId: string;
+  label: string;
+  camera: CameraIdentity | null;
+  stream: MediaStream;
+}
+
+export interface ReplayState {
+  sessionId: string | null;
+  slots: ReplaySlot[];
+  playing: boolean;
+  // Seconds since the first slot started recording
+  time: number;
+  duration: number;
+  rate: number;
+}
+
+interface LoadedSlot {
+  slot: ReplaySlot;
+  video: HTMLVideoElement;
+  url: string;
+  // Seconds into the session at which the file starts
+  offset: number;
+  duration: number;
+}
+
+export const REPLAY_RATES = [0.25, 0.5, 1, 2, 4];
+
+const SYNC_INTERVAL_MS = 200;
+// How far a video may run off the session clock (scaled by the rate) before it is seeked back
+const MAX_DRIFT_S = 0.15;
+// MediaRecorder WebMs carry no duration; this long without finding it, the manifest's is used
+const DURATION_TIMEOUT_MS = 5000;
+
+const emptyState: ReplayState = { sessionId: null, slots: [], playing: false, time: 0, duration: 0, rate: 1 };
+
+const isManifest = (value: any): value is SessionManifest =>
+  value?.kind === 'recording' && typeof value.sessionId === 'string' && typeof value.startedAt === 'number' &&
+  typeof value.stoppedAt === 'number' &&
+  Array.isArray(value.slots) && value.slots.every((slot: any) =>
+    typeof slot?.slotId === 'string' && typeof slot.label === 'string' && typeof slot.file === 'string' && typeof slot.startedAt === 'number');
+
+// Files can come back renamed by the browser ("name (1).webm"), so the extension-less stem is
+// matched as a prefix too
+const findFile = (files: File[], name: string) => {
+  const stem = name.replace(/\.[^.]+$/, '');
+  return files.find(file => file.name === name) ?? files.find(file => file.name.startsWith(stem));
+};
+
+const waitForEvent = (video: HTMLVideoElement, type: string) =>
+  new Promise<void>((resolve, reject) => {
+    video.addEventListener(type, () => resolve(), { once: true });
+    video.addEventListener('error', () => reject(new Error(video.error?.message || 'Unreadable video')), { once: true });
+  });
+
+// Seeking far past the end makes the browser scan the file and report its real duration
+const resolveDuration = (video: HTMLVideoElement, fallback: number) =>
+  new Promise<number>(resolve => {
+    if (Number.isFinite(video.duration)) return resolve(video.duration);
+    const done = (duration: number) => {
+      clearTimeout(timeoutId);
+      video.removeEventListener('durationchange', onChange);
+      video.currentTime = 0;
+      resolve(duration);
+    };
+    const onChange = () => Number.isFinite(video.duration) && done(video.duration);
+    const timeoutId = setTimeout(() => done(fallback), DURATION_TIMEOUT_MS);
+    video.addEventListener('durationchange', onChange);
+    video.currentTime = Number.MAX_SAFE_INTEGER;
+  });
+
+const openSlot = async (manifest: SessionManifest, slot: ManifestSlot, file: File, sessionStart: number): Promise<LoadedSlot> => {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  video.src = url;
+  try {
+    await waitForEvent(video, 'loadedmetadata');
+    const duration = await resolveDuration(video, Math.max(0, manifest.stoppedAt - slot.startedAt) / 1000);
+    const capture = (video as any).captureStream ?? (video as any).mozCaptureStream;
+    if (typeof capture !== 'function') throw new Error('This browser cannot stream a video file.');
+    const stream = new MediaStream((capture.call(video) as MediaStream).getVideoTracks());
+    return {
+      slot: { slotId: slot.slotId, label: slot.label, camera: slot.camera, stream },
+      video,
+      url,
+      offset: (slot.startedAt - sessionStart) / 1000,
+      duration,
+    };
+  } catch (err) {
+    URL.revokeObjectURL(url);
+    throw new Error(`${file.name}: ${err instanceof Error ? err.message : err}`);
+  }
+};
+
+class SessionReplay {
+  private loaded: LoadedSlot[] = [];
+  private state = emptyState;
+  // Session time at `anchorClock` (performance.now()); the clock runs from there while playing
+  private anchorTime = 0;
+  private anchorClock = 0;
+  private syncTimer: ReturnType<typeof setInterval> | null = null;
+  private listeners = new Set<() => void>();
+
+  // Opens a recording from its manifest and the slot files it lists; replaces any open replay
+  async load(files: File[]) {
+    const manifestFile = files.find(file => file.name.endsWith('.json'));
+    if (!manifestFile) throw new Error('Select the manifest (.json) together with the video files.');
+    let manifest: unknown;
+    try {
+      manifest = JSON.parse(await manifestFile.text());
+    } catch {
+      throw new Error(`${manifestFile.name} is not valid JSON.`);
+    }
+    if (!isManifest(manifest)) throw new Error(`${manifestFile.name} is not a recording manifest.`);
+
+    const missing = manifest.slots.filter(slot => !findFile(files, slot.file)).map(slot => slot.file);
+    if (missing.length > 0) throw new Error(`Missing video files: ${missing.join(', ')}`);
+
+    const sessionStart = Math.min(...manifest.slots.map(slot => slot.startedAt));
+    const results = await Promise.allSettled(manifest.slots.map(slot => openSlot(manifest as SessionManifest, slot, findFile(files, slot.file)!, sessionStart)));
+    const opened = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+    const failed = results.flatMap(result => result.status === 'rejected' ? [String(result.reason?.message ?? result.reason)] : []);
+    if (failed.length > 0) {
+      opened.forEach(dispose);
+      throw new Error(`Could not open ${failed.join('; ')}`);
+    }
+
+    this.close();
+    this.loaded = opened;
+    this.anchorTime = 0;
+    this.state = {
+      sessionId: manifest.sessionId,
+      slots: opened.map(({ slot }) => slot),
+      playing: false,
+      time: 0,
+      duration: Math.max(0, ...opened.map(({ offset, duration }) => offset + duration)),
+      rate: 1,
+    };
+    this.sync();
+  }
+
+  close() {
+    this.stopTimer();
+    this.loaded.forEach(dispose);
+    this.loaded = [];
+    this.state = emptyState;
+    this.emit();
+  }
+
+  play() {
+    if (this.loaded.length === 0 || this.state.playing) return;
+    // Playing from the end starts over
+    if (this.state.time >= this.state.duration) this.anchorTime = 0;
+    this.anchorClock = performance.now();
+    this.state = { ...this.state, playing: true };
+    this.syncTimer = setInterval(() => this.sync(), SYNC_INTERVAL_MS);
+    this.sync();
+  }
+
+  pause() {
+    if (!this.state.playing) return;
+    this.anchorTime = this.currentTime();
+    this.state = { ...this.state, playing: false };
+    this.stopTimer();
+    this.sync();
+  }
+
+  seek(time: number) {
+    this.anchorTime = Math.min(Math.max(0, time), this.state.duration);
+    this.anchorClock = performance.now();
+    // Seeks every file, not only the ones that drifted
+    this.loaded.forEach(loaded => { loaded.video.currentTime = this.localTime(loaded, this.anchorTime); });
+    this.sync();
+  }
+
+  setRate(rate: number) {
+    this.anchorTime = this.currentTime();
+    this.anchorClock = performance.now();
+    this.state = { ...this.state, rate };
+    this.sync();
+  }
+
+  getState(): ReplayState {
+    return this.state;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private currentTime() {
+    const { playing, rate, duration } = this.state;
+    const elapsed = playing ? ((performance.now() - this.anchorClock) / 1000) * rate : 0;
+    return Math.min(this.anchorTime + elapsed, duration);
+  }
+
+  private localTime(loaded: LoadedSlot, time: number) {
+    return Math.min(Math.max(0, time - loaded.offset), loaded.duration);
+  }
+
+  // Moves every video to where the session clock says it should be
+  private sync() {
+    let time = this.currentTime();
+    if (this.state.playing && time >= this.state.duration) {
+      this.anchorTime = time = this.state.duration;
+      this.state = { ...this.state, playing: false };
+      this.stopTimer();
+    }
+
+    const { playing, rate } = this.state;
+    this.loaded.forEach(loaded => {
+      const { video } = loaded;
+      const local = time - loaded.offset;
+      const inside = local >= 0 && local < loaded.duration;
+      video.playbackRate = rate;
+      if (!playing || !inside) {
+        if (!video.paused) video.pause();
+        const target = this.localTime(loaded, time);
+        if (Math.abs(video.currentTime - target) > 0.01) video.currentTime = target;
+        return;
+      }
+      if (video.paused) {
+        video.currentTime = local;
+        video.play().catch(err => console.warn(`Replay of ${loaded.slot.slotId} could not play:`, err));
+      } else if (Math.abs(video.currentTime - local) > MAX_DRIFT_S * Math.max(1, rate)) {
+        video.currentTime = local;
+      }
+    });
+
+    this.state = { ...this.state, time };
+    this.emit();
+  }
+
+  private stopTimer() {
+    if (this.syncTimer) clearInterval(this.syncTimer);
+    this.syncTimer = null;
+  }
+
+  private emit() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+const dispose = ({ slot, video, url }: LoadedSlot) => {
+  slot.stream.getTracks().forEach(track => track.stop());
+  video.pause();
+  video.removeAttribute('src');
+  video.load();
+  URL.revokeObjectURL(url);
+};
+
+export const sessionReplay = new SessionReplay();
@@ -0,0 +1,183 @@
+// Stereo extrinsic calibration: the rigid transform between two intrinsically calibrated cameras
+// that look at the same ChArUco board.
+import type { CharucoBoardSpec, CharucoDetection } from './charuco';
+import type { CameraIdentity, CameraIntrinsics } from './calibration';
+
+export interface StereoCamera {
+  slotId: string;
+  label: string;
+  camera: CameraIdentity;
+  intrinsics: CameraIntrinsics;
+}
+
+export interface StereoCalibration {
+  cameras: [StereoCamera, StereoCamera];
+  // Maps points from the first camera's frame to the second's: X2 = R * X1 + T
+  rotation: number[];
+  // Meters, expressed in the second camera's frame (same convention as OpenCV's stereoCalibrate)
+  translation: number[];
+  // RMS error in pixels when the board seen by the first camera is projected into the second
+  reprojectionError: number;
+  pairs: number;
+  board: CharucoBoardSpec;
+  calibratedAt: string;
+}
+
+// A pair of detections taken at (roughly) the same moment
+export type DetectionPair = [CharucoDetection, CharucoDetection];
+
+type Mat3 = number[];
+type Vec3 = number[];
+
+const mul = (a: Mat3, b: Mat3): Mat3 => {
+  const out = new Array(9).fill(0);
+  for (let r = 0; r < 3; r++) for (let c = 0; c < 3; c++) for (let k = 0; k < 3; k++) out[r * 3 + c] += a[r * 3 + k] * b[k * 3 + c];
+  return out;
+};
+const transpose = (m: Mat3): Mat3 => [m[0], m[3], m[6], m[1], m[4], m[7], m[2], m[5], m[8]];
+const apply = (m: Mat3, v: Vec3): Vec3 => [
+  m[0] * v[0] + m[1] * v[1] + m[2] * v[2],
+  m[3] * v[0] + m[4] * v[1] + m[5] * v[2],
+  m[6] * v[0] + m[7] * v[1] + m[8] * v[2],
+];
+
+const toQuaternion = (m: Mat3): number[] => {
+  const trace = m[0] + m[4] + m[8];
+  if (trace > 0) {
+    const s = Math.sqrt(trace + 1) * 2;
+    return [s / 4, (m[7] - m[5]) / s, (m[2] - m[6]) / s, (m[3] - m[1]) / s];
+  }
+  if (m[0] > m[4] && m[0] > m[8]) {
+    const s = Math.sqrt(1 + m[0] - m[4] - m[8]) * 2;
+    return [(m[7] - m[5]) / s, s / 4, (m[1] + m[3]) / s, (m[2] + m[6]) / s];
+  }
+  if (m[4] > m[8]) {
+    const s = Math.sqrt(1 + m[4] - m[0] - m[8]) * 2;
+    return [(m[2] - m[6]) / s, (m[1] + m[3]) / s, s / 4, (m[5] + m[7]) / s];
+  }
+  const s = Math.sqrt(1 + m[8] - m[0] - m[4]) * 2;
+  return [(m[3] - m[1]) / s, (m[2] + m[6]) / s, (m[5] + m[7]) / s, s / 4];
+};
+
+const fromQuaternion = ([w, x, y, z]: number[]): Mat3 => [
+  1 - 2 * (y * y + z * z), 2 * (x * y - w * z), 2 * (x * z + w * y),
+  2 * (x * y + w * z), 1 - 2 * (x * x + z * z), 2 * (y * z - w * x),
+  2 * (x * z - w * y), 2 * (y * z + w * x), 1 - 2 * (x * x + y * y),
+];
+
+// Board pose in a camera's frame from one detection
+const solveBoardPose = (cv: any, detection: CharucoDetection, intrinsics: CameraIntrinsics) => {
+  const obj = cv.matFromArray(detection.ids.length, 1, cv.CV_32FC3, detection.objectPoints.flat());
+  const img = cv.matFromArray(detection.ids.length, 1, cv.CV_32FC2, detection.imagePoints.flat());
+  const K = cv.matFromArray(3, 3, cv.CV_64F, intrinsics.cameraMatrix);
+  const dist = cv.matFromArray(1, intrinsics.distCoeffs.length, cv.CV_64F, intrinsics.distCoeffs);
+  const rvec = new cv.Mat();
+  const tvec = new cv.Mat();
+  const R = new cv.Mat();
+  try {
+    if (!cv.solvePnP(obj, img, K, dist, rvec, tvec)) throw new Error('solvePnP failed');
+    cv.Rodrigues(rvec, R);
+    return { rotation: Array.from(R.data64F as Float64Array), translation: Array.from(tvec.data64F as Float64Array) };
+  } finally {
+    [obj, img, K, dist, rvec, tvec, R].forEach(m => m.delete());
+  }
+};
+
+const projectPoints = (cv: any, points: Vec3[], intrinsics: CameraIntrinsics): [number, number][] => {
+  const obj = cv.matFromArray(points.length, 1, cv.CV_64FC3, points.flat());
+  const rvec = cv.matFromArray(3, 1, cv.CV_64F, [0, 0, 0]);
+  const tvec = cv.matFromArray(3, 1, cv.CV_64F, [0, 0, 0]);
+  const K = cv.matFromArray(3, 3, cv.CV_64F, intrinsics.cameraMatrix);
+  const dist = cv.matFromArray(1, intrinsics.distCoeffs.length, cv.CV_64F, intrinsics.distCoeffs);
+  const out = new cv.Mat();
+  try {
+    cv.projectPoints(obj, rvec, tvec, K, dist, out);
+    const data = out.data64F.length ? out.data64F : out.data32F;
+    return points.map((_, i) => [data[i * 2], data[i * 2 + 1]]);
+  } finally {
+    [obj, rvec, tvec, K, dist, out].forEach(m => m.delete());
+  }
+};
+
+// Estimates the transform from camera A to camera B. Each pair is solved independently with
+// solvePnP on both cameras, then the rotations are averaged as quaternions and the translations
+// arithmetically.
+export const calibrateStereo = (
+  cv: any,
+  pairs: DetectionPair[],
+  cameras: [StereoCamera, StereoCamera],
+  board: CharucoBoardSpec,
+): StereoCalibration => {
+  const [a, b] = cameras;
+  const relative = pairs.map(([detA, detB]) => {
+    const poseA = solveBoardPose(cv, detA, a.intrinsics);
+    const poseB = solveBoardPose(cv, detB, b.intrinsics);
+    const rotation = mul(poseB.rotation, transpose(poseA.rotation));
+    const rotatedA = apply(rotation, poseA.translation);
+    return { rotation, translation: poseB.translation.map((t, i) => t - rotatedA[i]), poseA };
+  });
+
+  const reference = toQuaternion(relative[0].rotation);
+  const quatSum = [0, 0, 0, 0];
+  const translation = [0, 0, 0];
+  relative.forEach(r => {
+    const q = toQuaternion(r.rotation);
+    // q and -q are the same rotation; keep them on one hemisphere before averaging
+    const sign = q.reduce((acc, v, i) => acc + v * reference[i], 0) < 0 ? -1 : 1;
+    q.forEach((v, i) => { quatSum[i] += sign * v; });
+    r.translation.forEach((v, i) => { translation[i] += v / relative.length; });
+  });
+  const norm = Math.hypot(...quatSum);
+  const rotation = fromQuaternion(quatSum.map(v => v / norm));
+
+  // Reprojection check: carry the board from camera A's pose into camera B and compare
+  let squaredError = 0;
+  let count = 0;
+  pairs.forEach(([detA, detB], i) => {
+    const { poseA } = relative[i];
+    const shared = detB.ids.filter(id => detA.ids.includes(id));
+    if (shared.length === 0) return;
+    const inB = shared.map(id => {
+      const boardPoint = detA.objectPoints[detA.ids.indexOf(id)];
+      const inA = apply(poseA.rotation, boardPoint).map((v, k) => v + poseA.translation[k]);
+      return apply(rotation, inA).map((v, k) => v + translation[k]);
+    });
+    const projected = projectPoints(cv, inB, b.intrinsics);
+    shared.forEach((id, k) => {
+      const [x, y] = detB.imagePoints[detB.ids.indexOf(id)];
+      squaredError += (projected[k][0] - x) ** 2 + (projected[k][1] - y) ** 2;
+      count++;
+    });
+  });
+
+  return {
+    cameras,
+    rotation,
+    translation,
+    reprojectionError: count ? Math.sqrt(squaredError / count) : NaN,
+    pairs: pairs.length,
+    board,
+    calibratedAt: new Date().toISOString(),
+  };
+};
+
+const storageKey = (a: CameraIdentity, b: CameraIdentity) =>
+  `calibration:stereo:${a.casterId}:${a.cameraLabel}|${b.casterId}:${b.cameraLabel}`;
+
+export const loadStereo = (a: CameraIdentity, b: CameraIdentity): StereoCalibration | null => {
+  try {
+    const raw = localStorage.getItem(storageKey(a, b));
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveStereo = (calibration: StereoCalibration) => {
+  const [a, b] = calibration.cameras;
+  try {
+    localStorage.setItem(storageKey(a.camera, b.camera), JSON.stringify(calibration));
+  } catch (err) {
+    console.error('Could not save stereo calibration:', err);
+  }
+};
@@ -0,0 +1,326 @@
+// Test sources stand in for a camera so the console, the frame bridge and the board tools can be
+// exercised without phones or a whiteboard. The scene source paints a whiteboard with ArUco
+// corner markers and handwriting that appears word by word (with pauses, so keyframes are taken)
+// and is wiped once the board is full. Perspective tilts the board, noise adds sensor grain. The
+// file source loops a video. Both end up as a MediaStream like any camera.
+import { CORNER_MARKER_IDS } from './boardRectifier';
+import { visionPipeline } from './visionPipeline';
+import type { TestSource } from '../types';
+
+export interface TestStream {
+  stream: MediaStream;
+  // Something about the source that didn't work out, e.g. markers missing without ArUco
+  warning: string | null;
+  stop: () => void;
+}
+
+export const DEFAULT_TEST_SCENE = { type: 'scene', noise: 0.2, perspective: 0.4 } as const;
+
+// Caster links can pick a test source, e.g. `?source=scene&noise=0.1` or `?source=file&url=...`
+export const TEST_SOURCE_PARAM = 'source';
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+export const parseTestSource = (params: URLSearchParams): TestSource | null => {
+  const type = params.get(TEST_SOURCE_PARAM);
+  if (type === 'file') {
+    const url = params.get('url');
+    return url ? { type: 'file', url } : null;
+  }
+  if (type !== 'scene') return null;
+  const number = (name: 'noise' | 'perspective') => {
+    const value = parseFloat(params.get(name) ?? '');
+    return Number.isFinite(value) ? clamp01(value) : DEFAULT_TEST_SCENE[name];
+  };
+  return { type: 'scene', noise: number('noise'), perspective: number('perspective') };
+};
+
+// Picked local files play from object URLs, which only this page can open and which hold the
+// file in memory until revoked
+export const openVideoFile = (file: File): TestSource => ({ type: 'file', url: URL.createObjectURL(file) });
+
+export const isPickedFile = (source: TestSource | null | undefined): source is Extract<TestSource, { type: 'file' }> =>
+  source?.type === 'file' && source.url.startsWith('blob:');
+
+export const releaseTestSource = (source: TestSource | null | undefined) => {
+  if (isPickedFile(source)) URL.revokeObjectURL(source.url);
+};
+
+export const describeTestSource = (source: TestSource) =>
+  source.type === 'scene' ? 'Synthetic board' : `Video file ${source.url.split('/').pop()}`;
+
+export const createTestStream = (source: TestSource): Promise<TestStream> =>
+  source.type === 'scene' ? createSceneStream(source.noise, source.perspective) : createFileStream(source.url);
+
+// --- Video file ---
+
+const createFileStream = async (url: string): Promise<TestStream> => {
+  const video = document.createElement('video');
+  video.crossOrigin = 'anonymous';
+  video.src = url;
+  video.loop = true;
+  video.muted = true;
+  video.playsInline = true;
+  const stop = () => {
+    video.pause();
+    video.removeAttribute('src');
+    video.load();
+  };
+  try {
+    await video.play();
+  } catch (err) {
+    stop();
+    throw new Error(`Could not play ${url}: ${err instanceof Error ? err.message : err}`);
+  }
+  const capture = (video as any).captureStream ?? (video as any).mozCaptureStream;
+  if (typeof capture !== 'function') {
+    stop();
+    throw new Error('This browser cannot stream a video file.');
+  }
+  const stream = new MediaStream((capture.call(video) as MediaStream).getVideoTracks());
+  return {
+    stream,
+    warning: null,
+    stop: () => {
+      stream.getTracks().forEach(track => track.stop());
+      stop();
+    },
+  };
+};
+
+// --- Synthetic whiteboard scene ---
+
+const WIDTH = 1280;
+const HEIGHT = 720;
+const FPS = 15;
+const BOARD_WIDTH = 1200;
+const BOARD_HEIGHT = 750;
+const MARKER_SIDE = 96;
+const MARKER_MARGIN = 16;
+const LINE_HEIGHT = 80;
+const TEXT_MARGIN = MARKER_MARGIN * 2 + MARKER_SIDE;
+const POINTS_PER_FRAME = 4;
+const WORD_PAUSE_MS = 2500;
+// Perspective is drawn as affine triangles on a grid of this many cells per side
+const WARP_GRID = 8;
+const NOISE_TILE = 128;
+
+type Point = [number, number];
+
+// Deterministic, so runs in CI see the same scene
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const makeCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+// Maps the unit square onto the quad (TL, TR, BR, BL)
+const squareToQuad = ([[x0, y0], [x1, y1], [x2, y2], [x3, y3]]: Point[]) => {
+  const dx1 = x1 - x2, dx2 = x3 - x2, dx3 = x0 - x1 + x2 - x3;
+  const dy1 = y1 - y2, dy2 = y3 - y2, dy3 = y0 - y1 + y2 - y3;
+  const det = dx1 * dy2 - dx2 * dy1;
+  const g = (dx3 * dy2 - dx2 * dy3) / det;
+  const h = (dx1 * dy3 - dx3 * dy1) / det;
+  const a = x1 - x0 + g * x1, b = x3 - x0 + h * x3;
+  const d = y1 - y0 + g * y1, e = y3 - y0 + h * y3;
+  return (u: number, v: number): Point => {
+    const w = g * u + h * v + 1;
+    return [(a * u + b * v + x0) / w, (d * u + e * v + y0) / w];
+  };
+};
+
+// Draws the triangle `src` of `image` onto the triangle `dst`
+const drawTriangle = (ctx: CanvasRenderingContext2D, image: CanvasImageSource, src: Point[], dst: Point[]) => {
+  const [[sx0, sy0], [sx1, sy1], [sx2, sy2]] = src;
+  const [[dx0, dy0], [dx1, dy1], [dx2, dy2]] = dst;
+  const det = (sx1 - sx0) * (sy2 - sy0) - (sx2 - sx0) * (sy1 - sy0);
+  const a = ((dx1 - dx0) * (sy2 - sy0) - (dx2 - dx0) * (sy1 - sy0)) / det;
+  const c = ((dx2 - dx0) * (sx1 - sx0) - (dx1 - dx0) * (sx2 - sx0)) / det;
+  const b = ((dy1 - dy0) * (sy2 - sy0) - (dy2 - dy0) * (sy1 - sy0)) / det;
+  const d = ((dy2 - dy0) * (sx1 - sx0) - (dy1 - dy0) * (sx2 - sx0)) / det;
+  // Grow the clip by half a pixel so neighbouring triangles leave no seams
+  const cx = (dx0 + dx1 + dx2) / 3, cy = (dy0 + dy1 + dy2) / 3;
+  ctx.save();
+  ctx.beginPath();
+  dst.forEach(([x, y], i) => {
+    const length = Math.hypot(x - cx, y - cy) || 1;
+    const grown: Point = [x + (x - cx) / length * 0.5, y + (y - cy) / length * 0.5];
+    if (i === 0) ctx.moveTo(...grown);
+    else ctx.lineTo(...grown);
+  });
+  ctx.closePath();
+  ctx.clip();
+  ctx.transform(a, b, c, d, dx0 - a * sx0 - c * sy0, dy0 - b * sx0 - d * sy0);
+  ctx.drawImage(image, 0, 0);
+  ctx.restore();
+};
+
+const drawWarped = (ctx: CanvasRenderingContext2D, image: HTMLCanvasElement, quad: Point[]) => {
+  const map = squareToQuad(quad);
+  for (let row = 0; row < WARP_GRID; row++) {
+    for (let col = 0; col < WARP_GRID; col++) {
+      const u0 = col / WARP_GRID, u1 = (col + 1) / WARP_GRID;
+      const v0 = row / WARP_GRID, v1 = (row + 1) / WARP_GRID;
+      const src = (u: number, v: number): Point => [u * image.width, v * image.height];
+      drawTriangle(ctx, image, [src(u0, v0), src(u1, v0), src(u1, v1)], [map(u0, v0), map(u1, v0), map(u1, v1)]);
+      drawTriangle(ctx, image, [src(u0, v0), src(u1, v1), src(u0, v1)], [map(u0, v0), map(u1, v1), map(u0, v1)]);
+    }
+  }
+};
+
+// Where the board corners land in the frame; the right side recedes as perspective grows
+const boardQuad = (perspective: number): Point[] => [
+  [100 + 60 * perspective, 40 + 10 * perspective],
+  [1180 - 120 * perspective, 40 + 70 * perspective],
+  [1180 - 120 * perspective, 680 - 60 * perspective],
+  [100 + 60 * perspective, 680 - 10 * perspective],
+];
+
+// The blank board with its corner markers, drawn by the vision worker's OpenCV; without ArUco
+// there the board stays unmarked
+const paintBoard = async (): Promise<{ board: HTMLCanvasElement; warning: string | null }> => {
+  const board = makeCanvas(BOARD_WIDTH, BOARD_HEIGHT);
+  const ctx = board.getContext('2d')!;
+  const gradient = ctx.createLinearGradient(0, 0, BOARD_WIDTH, BOARD_HEIGHT);
+  gradient.addColorStop(0, '#fbfbf8');
+  gradient.addColorStop(1, '#d9dad6');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, BOARD_WIDTH, BOARD_HEIGHT);
+
+  try {
+    const markers = await visionPipeline.renderMarkers(CORNER_MARKER_IDS, MARKER_SIDE);
+    // Each marker's outer corner sits on the board corner with the same index
+    const positions: Point[] = [
+      [MARKER_MARGIN, MARKER_MARGIN],
+      [BOARD_WIDTH - MARKER_MARGIN - MARKER_SIDE, MARKER_MARGIN],
+      [BOARD_WIDTH - MARKER_MARGIN - MARKER_SIDE, BOARD_HEIGHT - MARKER_MARGIN - MARKER_SIDE],
+      [MARKER_MARGIN, BOARD_HEIGHT - MARKER_MARGIN - MARKER_SIDE],
+    ];
+    markers.forEach((marker, i) => {
+      ctx.drawImage(marker, ...positions[i]);
+      marker.close();
+    });
+    return { board, warning: null };
+  } catch (err) {
+    console.warn('Synthetic board drawn without ArUco markers:', err);
+    return { board, warning: 'No ArUco markers on the synthetic board (OpenCV.js with aruco unavailable).' };
+  }
+};
+
+const createNoiseTiles = (random: () => number) => Array.from({ length: 4 }, () => {
+  const tile = makeCanvas(NOISE_TILE, NOISE_TILE);
+  const ctx = tile.getContext('2d')!;
+  const pixels = ctx.createImageData(NOISE_TILE, NOISE_TILE);
+  for (let i = 0; i < pixels.data.length; i += 4) {
+    const v = random() * 255;
+    pixels.data[i] = pixels.data[i + 1] = pixels.data[i + 2] = v;
+    pixels.data[i + 3] = 255;
+  }
+  ctx.putImageData(pixels, 0, 0);
+  return tile;
+});
+
+// Pen that writes scribbled "words" line by line, pausing after each word
+class Handwriting {
+  readonly layer = makeCanvas(BOARD_WIDTH, BOARD_HEIGHT);
+  private ctx = this.layer.getContext('2d')!;
+  private cursor: Point = [TEXT_MARGIN, TEXT_MARGIN + LINE_HEIGHT / 2];
+  private word: Point[] = [];
+  private drawn = 0;
+  private pauseUntil = 0;
+
+  constructor(private random: () => number) {
+    this.ctx.lineWidth = 4;
+    this.ctx.lineCap = 'round';
+    this.ctx.lineJoin = 'round';
+  }
+
+  advance(now: number) {
+    if (now < this.pauseUntil) return;
+    if (this.drawn >= this.word.length) this.startWord();
+
+    const end = Math.min(this.word.length, this.drawn + POINTS_PER_FRAME);
+    this.ctx.beginPath();
+    this.ctx.moveTo(...this.word[Math.max(0, this.drawn - 1)]);
+    for (let i = this.drawn; i < end; i++) this.ctx.lineTo(...this.word[i]);
+    this.ctx.stroke();
+    this.drawn = end;
+    if (this.drawn >= this.word.length) this.pauseUntil = now + WORD_PAUSE_MS;
+  }
+
+  private startWord() {
+    const length = 40 + Math.floor(this.random() * 80);
+    if (this.cursor[0] + length > BOARD_WIDTH - TEXT_MARGIN) {
+      this.cursor = [TEXT_MARGIN, this.cursor[1] + LINE_HEIGHT];
+    }
+    if (this.cursor[1] > BOARD_HEIGHT - TEXT_MARGIN) {
+      // Board full: wipe it and start over
+      this.ctx.clearRect(0, 0, BOARD_WIDTH, BOARD_HEIGHT);
+      this.cursor = [TEXT_MARGIN, TEXT_MARGIN + LINE_HEIGHT / 2];
+    }
+    this.ctx.strokeStyle = ['#1d3b8f', '#1c1c1c', '#b3261e'][Math.floor(this.random() * 3)];
+
+    const [x0, baseline] = this.cursor;
+    const steps = Math.round(length / 3);
+    this.word = Array.from({ length: steps }, (_, i): Point => {
+      const x = x0 + i * 3 + Math.sin(i * 0.9) * 6;
+      const y = baseline - Math.abs(Math.sin(i * 0.45 + this.random())) * 22 + Math.cos(i * 0.9) * 4;
+      return [x, y];
+    });
+    this.drawn = 0;
+    this.cursor = [x0 + length + 28, baseline];
+  }
+}
+
+const createSceneStream = async (noise: number, perspective: number): Promise<TestStream> => {
+  const random = seededRandom(1);
+  const { board, warning } = await paintBoard();
+  const handwriting = new Handwriting(random);
+  const noiseTiles = createNoiseTiles(random);
+  const composed = makeCanvas(BOARD_WIDTH, BOARD_HEIGHT);
+  const composedCtx = composed.getContext('2d')!;
+  const canvas = makeCanvas(WIDTH, HEIGHT);
+  const ctx = canvas.getContext('2d')!;
+  const quad = boardQuad(clamp01(perspective));
+
+  const render = () => {
+    handwriting.advance(performance.now());
+    composedCtx.drawImage(board, 0, 0);
+    composedCtx.drawImage(handwriting.layer, 0, 0);
+
+    ctx.fillStyle = '#3b3f45';
+    ctx.fillRect(0, 0, WIDTH, HEIGHT);
+    drawWarped(ctx, composed, quad);
+
+    if (noise > 0) {
+      ctx.save();
+      ctx.globalAlpha = clamp01(noise) * 0.35;
+      ctx.globalCompositeOperation = 'overlay';
+      ctx.fillStyle = ctx.createPattern(noiseTiles[Math.floor(random() * noiseTiles.length)], 'repeat')!;
+      ctx.translate(-random() * NOISE_TILE, -random() * NOISE_TILE);
+      ctx.fillRect(0, 0, WIDTH + NOISE_TILE, HEIGHT + NOISE_TILE);
+      ctx.restore();
+    }
+  };
+
+  render();
+  // Timers rather than animation frames, so the scene keeps running in headless browsers
+  const intervalId = setInterval(render, 1000 / FPS);
+  const stream = canvas.captureStream(FPS);
+  return {
+    stream,
+    warning,
+    stop: () => {
+      clearInterval(intervalId);
+      stream.getTracks().forEach(track => track.stop());
+    },
+  };
+};
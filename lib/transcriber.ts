@@ -0,0 +1,98 @@
+// Turns a board image into text. The console only talks to the BoardTranscriber interface;
+// Gemini is used when an API key is configured, otherwise (or with TRANSCRIBER=mock) a local
+// mock answers so the flow can be tried without network access.
+import { GoogleGenAI, Type } from '@google/genai';
+
+export interface BoardTranscription {
+  // Everything written on the board as plain text, in reading order
+  text: string;
+  // Math on the board, one LaTeX expression per entry (without $ delimiters)
+  latex: string[];
+  // One description per drawing, chart or diagram
+  diagrams: string[];
+}
+
+export interface BoardTranscriber {
+  readonly name: string;
+  transcribe(image: Blob): Promise<BoardTranscription>;
+}
+
+const GEMINI_MODEL = 'gemini-2.5-flash';
+
+const PROMPT = `This is a photo of a whiteboard or blackboard. Transcribe it.
+- text: all handwritten and printed text in reading order, keeping line breaks and list structure. Write math inline as plain text.
+- latex: every mathematical expression or equation as LaTeX, without $ delimiters.
+- diagrams: a short description of each drawing, chart or diagram, including its labels and arrows.
+Use empty strings or lists for anything that is not on the board. Do not guess unreadable words; write [?] instead.`;
+
+const RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    text: { type: Type.STRING },
+    latex: { type: Type.ARRAY, items: { type: Type.STRING } },
+    diagrams: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ['text', 'latex', 'diagrams'],
+  propertyOrdering: ['text', 'latex', 'diagrams'],
+};
+
+const blobToBase64 = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    // Data URL: "data:<mime>;base64,<data>"
+    reader.onload = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : [];
+
+export class GeminiTranscriber implements BoardTranscriber {
+  readonly name = 'Gemini';
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string, private model = GEMINI_MODEL) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  async transcribe(image: Blob): Promise<BoardTranscription> {
+    const response = await this.ai.models.generateContent({
+      model: this.model,
+      contents: [
+        { inlineData: { mimeType: image.type || 'image/jpeg', data: await blobToBase64(image) } },
+        { text: PROMPT },
+      ],
+      config: { responseMimeType: 'application/json', responseSchema: RESPONSE_SCHEMA },
+    });
+    if (!response.text) throw new Error('Gemini returned no transcription');
+    const parsed = JSON.parse(response.text);
+    return {
+      text: typeof parsed.text === 'string' ? parsed.text : '',
+      latex: toStringList(parsed.latex),
+      diagrams: toStringList(parsed.diagrams),
+    };
+  }
+}
+
+const MOCK_DELAY_MS = 800;
+
+// Answers with a fixed transcription after a short delay, mentioning the image it was given.
+export class MockTranscriber implements BoardTranscriber {
+  readonly name = 'Mock';
+
+  async transcribe(image: Blob): Promise<BoardTranscription> {
+    await new Promise(resolve => setTimeout(resolve, MOCK_DELAY_MS));
+    return {
+      text: `Mock transcription of a ${Math.round(image.size / 1024)} KB ${image.type || 'image'}.\nSet GEMINI_API_KEY to transcribe the real board.`,
+      latex: ['E = mc^2', '\\int_0^1 x^2 \\, dx = \\frac{1}{3}'],
+      diagrams: ['A box labelled "camera" with an arrow pointing to a box labelled "console".'],
+    };
+  }
+}
+
+export const createTranscriber = (): BoardTranscriber => {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (process.env.TRANSCRIBER === 'mock' || !apiKey) return new MockTranscriber();
+  return new GeminiTranscriber(apiKey);
+};
@@ -0,0 +1,140 @@
+// Transcribed board snapshots per slot. Each entry keeps the image that was sent along with the
+// result, so the history can be browsed and exported later.
+import { visionPipeline } from './visionPipeline';
+import { createTranscriber, BoardTranscriber, BoardTranscription } from './transcriber';
+
+export interface TranscriptionEntry {
+  id: number;
+  slotId: string;
+  // Epoch ms
+  capturedAt: number;
+  // Whether the image is the rectified board rather than the raw camera view
+  rectified: boolean;
+  image: Blob;
+  imageUrl: string;
+  status: 'pending' | 'done' | 'error';
+  result: BoardTranscription | null;
+  error: string | null;
+}
+
+const MAX_ENTRIES_PER_SLOT = 30;
+const JPEG_QUALITY = 0.9;
+
+const EMPTY: TranscriptionEntry[] = [];
+
+const toJpeg = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) => canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Encoding failed')), 'image/jpeg', JPEG_QUALITY));
+
+// The current frame as a JPEG: the rectified board when its corner markers are in view, the
+// whole camera view otherwise. The vision worker rectifies it under a key of its own, so the
+// slot's live board view keeps its state.
+const grabBoard = async (slotId: string, video: HTMLVideoElement): Promise<{ image: Blob; rectified: boolean }> => {
+  const canvas = document.createElement('canvas');
+  const snapshotId = `${slotId}:transcription`;
+  try {
+    const board = await visionPipeline.processBoard(snapshotId, video, 'rectified', false, true);
+    if (board?.image) {
+      canvas.width = board.image.width;
+      canvas.height = board.image.height;
+      canvas.getContext('2d')!.drawImage(board.image, 0, 0);
+      board.image.close();
+      return { image: await toJpeg(canvas), rectified: true };
+    }
+  } catch (err) {
+    console.warn('Board rectification unavailable, sending the camera view:', err);
+  } finally {
+    visionPipeline.release(snapshotId, 'board');
+  }
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  canvas.getContext('2d')!.drawImage(video, 0, 0);
+  return { image: await toJpeg(canvas), rectified: false };
+};
+
+class TranscriptionHistory {
+  private entries = new Map<string, TranscriptionEntry[]>();
+  private listeners = new Set<() => void>();
+  private nextId = 1;
+
+  constructor(private transcriber: BoardTranscriber) {}
+
+  get transcriberName() {
+    return this.transcriber.name;
+  }
+
+  getEntries(slotId: string): TranscriptionEntry[] {
+    return this.entries.get(slotId) ?? EMPTY;
+  }
+
+  // Snapshots the slot's current frame and starts transcribing it. Resolves once the snapshot is
+  // in the history as pending; the entry is updated when the transcriber answers.
+  async transcribe(slotId: string, video: HTMLVideoElement) {
+    const capturedAt = Date.now();
+    const { image, rectified } = await grabBoard(slotId, video);
+    const entry: TranscriptionEntry = {
+      id: this.nextId++,
+      slotId,
+      capturedAt,
+      rectified,
+      image,
+      imageUrl: URL.createObjectURL(image),
+      status: 'pending',
+      result: null,
+      error: null,
+    };
+    const list = [...this.getEntries(slotId), entry];
+    while (list.length > MAX_ENTRIES_PER_SLOT) URL.revokeObjectURL(list.shift()!.imageUrl);
+    this.entries.set(slotId, list);
+    this.emit();
+
+    this.transcriber.transcribe(image)
+      .then(result => this.update(slotId, entry.id, { status: 'done', result }))
+      .catch(err => {
+        console.error('Transcription failed:', err);
+        this.update(slotId, entry.id, { status: 'error', error: err instanceof Error ? err.message : String(err) });
+      });
+  }
+
+  remove(slotId: string, id: number) {
+    const list = this.getEntries(slotId);
+    list.filter(entry => entry.id === id).forEach(entry => URL.revokeObjectURL(entry.imageUrl));
+    this.entries.set(slotId, list.filter(entry => entry.id !== id));
+    this.emit();
+  }
+
+  clear(slotId: string) {
+    this.getEntries(slotId).forEach(entry => URL.revokeObjectURL(entry.imageUrl));
+    this.entries.delete(slotId);
+    this.emit();
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private update(slotId: string, id: number, changes: Partial<TranscriptionEntry>) {
+    const list = this.entries.get(slotId);
+    // The entry may have been removed while waiting
+    if (!list?.some(entry => entry.id === id)) return;
+    this.entries.set(slotId, list.map(entry => entry.id === id ? { ...entry, ...changes } : entry));
+    this.emit();
+  }
+
+  private emit() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// Markdown rendering of an entry, for copying or saving
+export const transcriptionToMarkdown = (entry: TranscriptionEntry, label: string): string => {
+  const { result } = entry;
+  const lines = [`# ${label} — ${new Date(entry.capturedAt).toLocaleString()}`, ''];
+  if (!result) return lines.join('\n');
+  if (result.text) lines.push(result.text, '');
+  if (result.latex.length) lines.push('## Math', '', ...result.latex.map(expr => `$$${expr}$$`), '');
+  if (result.diagrams.length) lines.push('## Diagrams', '', ...result.diagrams.map(description => `- ${description}`), '');
+  return lines.join('\n');
+};
+
+export const transcriptionHistory = new TranscriptionHistory(createTranscriber());
@@ -0,0 +1,24 @@
+// Maps between video frame pixels and the on-screen box of a <video> element.
+
+export interface FrameTransform {
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+// Transform for `object-fit: cover`: the frame is scaled to fill the box and the overflow is
+// cropped equally on both sides.
+export const coverTransform = (
+  frameWidth: number,
+  frameHeight: number,
+  boxWidth: number,
+  boxHeight: number,
+): FrameTransform => {
+  const scale = Math.max(boxWidth / frameWidth, boxHeight / frameHeight);
+  return {
+    scale,
+    offsetX: (boxWidth - frameWidth * scale) / 2,
+    offsetY: (boxHeight - frameHeight * scale) / 2,
+  };
+};
+
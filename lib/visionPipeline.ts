@@ -0,0 +1,204 @@
+// Page side of the vision worker. Grabs frames from video elements, transfers them to the worker
+// and resolves with its results. The scheduler keeps the worker from falling behind: a slot gets
+// at most one task of each kind in flight and at most MAX_FPS of them per second, and new frames
+// are skipped while the worker already has MAX_QUEUED tasks to work through.
+import type { DetectedChange } from './changeDetector';
+import type { OpenCVStatus } from './opencvLoader';
+import type {
+  BoardMode, BoardResult, ChangeResult, EncodeResult, KeyframeResult, MarkersResult, PanoramaResult,
+  VisionFrame, VisionRequest, VisionResponse, VisionResult, VisionTask, VisionTaskKind,
+} from './visionProtocol';
+
+const MAX_FPS: Record<VisionTaskKind, number> = {
+  encode: 15,
+  change: 5,
+  keyframe: Infinity,
+  board: 10,
+  stitch: 5,
+};
+const MAX_QUEUED = 4;
+// Change detection only needs a thumbnail-sized frame
+const CHANGE_FRAME_WIDTH = 320;
+const KEYFRAME_THUMBNAIL_WIDTH = 240;
+
+interface PendingTask {
+  key: string;
+  resolve: (result: VisionResult) => void;
+  reject: (err: Error) => void;
+}
+
+// Transferable copy of the frame on screen, downscaled to `width` if given. VideoFrame avoids a
+// copy where supported; it needs the full size.
+const grabFrame = (video: HTMLVideoElement, width?: number): Promise<VisionFrame> => {
+  if (!width && typeof VideoFrame === 'function') {
+    return Promise.resolve(new VideoFrame(video, { timestamp: Math.round(performance.now() * 1000) }));
+  }
+  const resize: ImageBitmapOptions | undefined = width && width < video.videoWidth
+    ? { resizeWidth: width, resizeHeight: Math.round(video.videoHeight * width / video.videoWidth), resizeQuality: 'low' }
+    : undefined;
+  return createImageBitmap(video, resize);
+};
+
+const idleOpenCV: OpenCVStatus = { state: 'idle', url: null, loadedBytes: 0, totalBytes: null, version: null, modules: null, failures: [] };
+
+class VisionPipeline {
+  private worker: Worker | null = null;
+  private pending = new Map<number, PendingTask>();
+  private busy = new Set<string>();
+  private lastStartedAt = new Map<string, number>();
+  private nextId = 1;
+  private openCVStatus = idleOpenCV;
+  private listeners = new Set<() => void>();
+
+  // JPEG of the slot's current frame; null when skipped
+  encodeFrame(slotId: string, video: HTMLVideoElement, quality: number): Promise<EncodeResult | null> {
+    return this.schedule(slotId, video, 'encode', undefined, frame => ({ kind: 'encode', frame, quality })) as Promise<EncodeResult | null>;
+  }
+
+  // Feeds the slot's change detector; resolves with a change when a keyframe should be taken
+  async detectChange(slotId: string, video: HTMLVideoElement): Promise<DetectedChange | null> {
+    const result = await this.schedule(slotId, video, 'change', CHANGE_FRAME_WIDTH, frame => ({ kind: 'change', frame })) as ChangeResult | null;
+    return result?.change ?? null;
+  }
+
+  // Keyframe image and highlighted thumbnail of the slot's current frame. Never skipped for the
+  // frame rate; null only while the previous keyframe of the slot is still being encoded.
+  renderKeyframe(slotId: string, video: HTMLVideoElement, change: DetectedChange): Promise<KeyframeResult | null> {
+    return this.schedule(slotId, video, 'keyframe', undefined,
+      frame => ({ kind: 'keyframe', frame, change, thumbnailWidth: KEYFRAME_THUMBNAIL_WIDTH }), true) as Promise<KeyframeResult | null>;
+  }
+
+  // Rectified or cleaned board view of the slot's current frame; null when skipped. A snapshot
+  // is not skipped for a full queue.
+  processBoard(slotId: string, video: HTMLVideoElement, mode: BoardMode, removeForeground: boolean, snapshot = false): Promise<BoardResult | null> {
+    return this.schedule(slotId, video, 'board', undefined, frame => ({ kind: 'board', frame, mode, removeForeground }), snapshot) as Promise<BoardResult | null>;
+  }
+
+  // Panorama of two time-matched frames, keyed by the camera pair; null when skipped. Takes
+  // ownership of the bitmaps, which are transferred or closed.
+  stitch(pairId: string, left: ImageBitmap, right: ImageBitmap, jpegQuality: number | null): Promise<PanoramaResult | null> {
+    const key = `${pairId}:stitch`;
+    if (!this.admit(key, 'stitch', false)) {
+      left.close();
+      right.close();
+      return Promise.resolve(null);
+    }
+    return this.submit(key, pairId, { kind: 'stitch', frame: left, right, jpegQuality }, [left, right]) as Promise<PanoramaResult>;
+  }
+
+  // ArUco marker images drawn by the worker's OpenCV; rejects when it has no aruco module
+  renderMarkers(ids: number[], side: number): Promise<ImageBitmap[]> {
+    const id = this.nextId++;
+    return new Promise<VisionResult>((resolve, reject) => {
+      this.pending.set(id, { key: `markers:${id}`, resolve, reject });
+      this.post({ type: 'render-markers', id, ids, side });
+    }).then(result => (result as MarkersResult).markers);
+  }
+
+  // Forgets the worker's per-slot state for a kind of task, e.g. when a view closes
+  release(slotId: string, kind: VisionTaskKind) {
+    if (this.worker) this.post({ type: 'release', slotId, kind });
+  }
+
+  // Starts loading OpenCV.js in the worker (or retries after a failure)
+  loadOpenCV() {
+    if (this.openCVStatus.state === 'loading' || this.openCVStatus.state === 'ready') return;
+    this.post({ type: 'load-opencv' });
+  }
+
+  getOpenCVStatus(): OpenCVStatus {
+    return this.openCVStatus;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private async schedule(
+    slotId: string,
+    video: HTMLVideoElement,
+    kind: VisionTaskKind,
+    width: number | undefined,
+    createTask: (frame: VisionFrame) => VisionTask,
+    ignoreQueue = false,
+  ): Promise<VisionResult | null> {
+    const key = `${slotId}:${kind}`;
+    if (video.videoWidth === 0 || video.readyState < 2 || !this.admit(key, kind, ignoreQueue)) return null;
+    let frame: VisionFrame;
+    try {
+      frame = await grabFrame(video, width);
+    } catch (err) {
+      this.busy.delete(key);
+      console.warn(`Could not grab a frame of ${slotId}:`, err);
+      return null;
+    }
+
+    return this.submit(key, slotId, createTask(frame), [frame]);
+  }
+
+  // Reserves a task of `kind` for the key unless that would break the scheduling limits
+  private admit(key: string, kind: VisionTaskKind, ignoreQueue: boolean): boolean {
+    const now = performance.now();
+    if (this.busy.has(key)) return false;
+    if (now - (this.lastStartedAt.get(key) ?? -Infinity) < 1000 / MAX_FPS[kind]) return false;
+    if (!ignoreQueue && this.pending.size >= MAX_QUEUED) return false;
+    this.busy.add(key);
+    this.lastStartedAt.set(key, now);
+    return true;
+  }
+
+  private submit(key: string, slotId: string, task: VisionTask, transfer: Transferable[]): Promise<VisionResult> {
+    const id = this.nextId++;
+    return new Promise<VisionResult>((resolve, reject) => {
+      this.pending.set(id, { key, resolve, reject });
+      this.post({ type: 'task', id, slotId, task }, transfer);
+    });
+  }
+
+  private post(request: VisionRequest, transfer: Transferable[] = []) {
+    this.getWorker().postMessage(request, transfer);
+  }
+
+  private getWorker(): Worker {
+    if (this.worker) return this.worker;
+    const worker = new Worker(new URL('./visionWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<VisionResponse>) => this.handleMessage(event.data);
+    worker.onerror = event => {
+      console.error('Vision worker failed:', event.message);
+      this.failAll(new Error(`Vision worker failed: ${event.message}`));
+      worker.terminate();
+      if (this.worker === worker) this.worker = null;
+      this.openCVStatus = idleOpenCV;
+      this.emit();
+    };
+    this.worker = worker;
+    return worker;
+  }
+
+  private handleMessage(message: VisionResponse) {
+    if (message.type === 'opencv-status') {
+      this.openCVStatus = message.status;
+      this.emit();
+      return;
+    }
+    const task = this.pending.get(message.id);
+    if (!task) return;
+    this.pending.delete(message.id);
+    this.busy.delete(task.key);
+    if (message.type === 'result') task.resolve(message.result);
+    else task.reject(new Error(message.error));
+  }
+
+  private failAll(err: Error) {
+    this.pending.forEach(task => task.reject(err));
+    this.pending.clear();
+    this.busy.clear();
+  }
+
+  private emit() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const visionPipeline = new VisionPipeline();
@@ -0,0 +1,75 @@
+// Messages between the page (visionPipeline) and the vision worker (visionWorker). Frames are
+// transferred, not copied; the worker closes them once the task is done.
+import type { DetectedChange } from './changeDetector';
+import type { RectifierState } from './boardRectifier';
+import type { StitchResult } from './panoramaStitcher';
+import type { OpenCVStatus } from './opencvLoader';
+
+export type VisionFrame = ImageBitmap | VideoFrame;
+
+export type BoardMode = 'rectified' | 'clean';
+
+export type VisionTask =
+  // JPEG of the whole frame, for the Python bridge
+  | { kind: 'encode'; frame: VisionFrame; quality: number }
+  // Feeds the slot's change detector with a downscaled frame
+  | { kind: 'change'; frame: VisionFrame }
+  // Full-resolution keyframe image and a thumbnail with the change highlighted
+  | { kind: 'keyframe'; frame: VisionFrame; change: DetectedChange; thumbnailWidth: number }
+  // Rectified or cleaned board, using the slot's rectifier and cleaner state
+  | { kind: 'board'; frame: VisionFrame; mode: BoardMode; removeForeground: boolean }
+  // Left and right camera stitched into one board, keyed by the pair; optionally also as a JPEG
+  | { kind: 'stitch'; frame: VisionFrame; right: VisionFrame; jpegQuality: number | null };
+
+export type VisionTaskKind = VisionTask['kind'];
+
+export interface EncodeResult {
+  jpeg: ArrayBuffer;
+  width: number;
+  height: number;
+}
+
+export interface ChangeResult {
+  change: DetectedChange | null;
+}
+
+export interface KeyframeResult {
+  image: Blob;
+  thumbnail: Blob;
+  width: number;
+  height: number;
+}
+
+export interface BoardResult {
+  // Null while the board corners were never seen (rectified mode only)
+  image: ImageBitmap | null;
+  state: RectifierState;
+  visibleCorners: number;
+}
+
+export interface PanoramaResult extends StitchResult {
+  // Null until the cameras are registered
+  image: ImageBitmap | null;
+  jpeg: ArrayBuffer | null;
+  width: number;
+  height: number;
+}
+
+export interface MarkersResult {
+  markers: ImageBitmap[];
+}
+
+export type VisionResult = EncodeResult | ChangeResult | KeyframeResult | BoardResult | PanoramaResult | MarkersResult;
+
+export type VisionRequest =
+  | { type: 'task'; id: number; slotId: string; task: VisionTask }
+  // Drops the per-slot state kept for a kind of task
+  | { type: 'release'; slotId: string; kind: VisionTaskKind }
+  // ArUco marker images, e.g. for the synthetic test board
+  | { type: 'render-markers'; id: number; ids: number[]; side: number }
+  | { type: 'load-opencv' };
+
+export type VisionResponse =
+  | { type: 'result'; id: number; result: VisionResult }
+  | { type: 'error'; id: number; error: string }
+  | { type: 'opencv-status'; status: OpenCVStatus };
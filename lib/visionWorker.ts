@@ -0,0 +1,176 @@
+// Vision worker: JPEG encoding, board change detection, the OpenCV board views, the panorama and
+// the synthetic board's markers run here, off the UI thread. Frames come from visionPipeline as
+// transferred ImageBitmaps or VideoFrames. OpenCV.js is loaded in the worker with the same loader
+// the page uses, on first need.
+import { ChangeDetector, drawChangeHighlight } from './changeDetector';
+import { BoardRectifier } from './boardRectifier';
+import { BoardCleaner } from './boardCleaner';
+import { PanoramaStitcher } from './panoramaStitcher';
+import { renderMarker } from './aruco';
+import { context2d } from './canvas';
+import { loadOpenCV, getOpenCVStatus, subscribeOpenCVStatus, missingOpenCVModules } from './opencvLoader';
+import type { BoardResult, MarkersResult, PanoramaResult, VisionFrame, VisionRequest, VisionResponse, VisionResult, VisionTask, VisionTaskKind } from './visionProtocol';
+
+interface SlotState {
+  detector: ChangeDetector | null;
+  rectifier: BoardRectifier | null;
+  cleaner: BoardCleaner | null;
+  // Only on panorama pairs, which are keyed like slots
+  stitcher: PanoramaStitcher | null;
+  // Rectified board, the input of the cleaner in clean mode
+  rectified: OffscreenCanvas;
+  output: OffscreenCanvas;
+}
+
+const slots = new Map<string, SlotState>();
+
+const slotState = (slotId: string): SlotState => {
+  let state = slots.get(slotId);
+  if (!state) {
+    state = { detector: null, rectifier: null, cleaner: null, stitcher: null, rectified: new OffscreenCanvas(1, 1), output: new OffscreenCanvas(1, 1) };
+    slots.set(slotId, state);
+  }
+  return state;
+};
+
+const post = (message: VisionResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+subscribeOpenCVStatus(() => post({ type: 'opencv-status', status: getOpenCVStatus() }));
+
+const frameSize = (frame: VisionFrame): [number, number] =>
+  frame instanceof ImageBitmap ? [frame.width, frame.height] : [frame.displayWidth, frame.displayHeight];
+
+const draw = (frame: VisionFrame, width: number, height: number) => {
+  const canvas = new OffscreenCanvas(width, height);
+  context2d(canvas).drawImage(frame, 0, 0, width, height);
+  return canvas;
+};
+
+const openCV = async () => {
+  // After a failed load, only an explicit load-opencv request tries the sources again
+  if (getOpenCVStatus().state === 'failed') throw new Error('OpenCV.js could not be loaded');
+  await loadOpenCV();
+  return (self as any).cv;
+};
+
+const processBoard = async (state: SlotState, task: Extract<VisionTask, { kind: 'board' }>): Promise<BoardResult> => {
+  const cv = await openCV();
+  const clean = task.mode === 'clean';
+  const canRectify = missingOpenCVModules(['aruco']).length === 0;
+  if (!canRectify && !clean) throw new Error('This OpenCV build has no aruco module');
+  const [width, height] = frameSize(task.frame);
+
+  const result = canRectify
+    ? (state.rectifier ??= new BoardRectifier()).process(cv, task.frame, width, height, clean ? state.rectified : state.output)
+    : null;
+  const tracked = !!result && result.state !== 'searching';
+  if (clean) {
+    // Without corner markers, clean the whole camera view instead
+    const source = tracked ? state.rectified : task.frame;
+    (state.cleaner ??= new BoardCleaner()).process(cv, source,
+      tracked ? state.rectified.width : width,
+      tracked ? state.rectified.height : height,
+      state.output, { removeForeground: task.removeForeground });
+  }
+  return {
+    image: clean || tracked ? state.output.transferToImageBitmap() : null,
+    state: result?.state ?? 'searching',
+    visibleCorners: result?.visibleCorners ?? 0,
+  };
+};
+
+const stitch = async (state: SlotState, task: Extract<VisionTask, { kind: 'stitch' }>): Promise<PanoramaResult> => {
+  const cv = await openCV();
+  const missing = missingOpenCVModules(['imgproc', 'calib3d']);
+  if (missing.length > 0) throw new Error(`This OpenCV build has no ${missing.join(' or ')} module`);
+  const options = { markers: missingOpenCVModules(['aruco']).length === 0, features: missingOpenCVModules(['features2d']).length === 0 };
+  if (!options.markers && !options.features) throw new Error('This OpenCV build has neither aruco nor features2d to register the cameras');
+
+  const { output } = state;
+  const result = (state.stitcher ??= new PanoramaStitcher()).process(cv,
+    task.frame, ...frameSize(task.frame),
+    task.right, ...frameSize(task.right),
+    output, options);
+  if (result.state === 'searching') return { ...result, image: null, jpeg: null, width: 0, height: 0 };
+  const { width, height } = output;
+  const jpeg = task.jpegQuality === null ? null : await (await output.convertToBlob({ type: 'image/jpeg', quality: task.jpegQuality })).arrayBuffer();
+  return { ...result, image: output.transferToImageBitmap(), jpeg, width, height };
+};
+
+const renderMarkers = async (ids: number[], side: number): Promise<MarkersResult> => {
+  const cv = await openCV();
+  if (missingOpenCVModules(['aruco']).length > 0) throw new Error('This OpenCV build has no aruco module');
+  return { markers: await Promise.all(ids.map(id => createImageBitmap(renderMarker(cv, id, side)))) };
+};
+
+const run = async (slotId: string, task: VisionTask): Promise<VisionResult> => {
+  const state = slotState(slotId);
+  const [width, height] = frameSize(task.frame);
+  switch (task.kind) {
+    case 'encode': {
+      const jpeg = await draw(task.frame, width, height).convertToBlob({ type: 'image/jpeg', quality: task.quality });
+      return { jpeg: await jpeg.arrayBuffer(), width, height };
+    }
+    case 'change':
+      return { change: (state.detector ??= new ChangeDetector()).process(task.frame, width, height, performance.now()) };
+    case 'keyframe': {
+      const thumbnail = draw(task.frame, task.thumbnailWidth, Math.round(height * task.thumbnailWidth / width));
+      if (!task.change.initial) drawChangeHighlight(context2d(thumbnail), task.change, thumbnail.width, thumbnail.height);
+      const [image, thumbnailBlob] = await Promise.all([
+        draw(task.frame, width, height).convertToBlob({ type: 'image/jpeg', quality: 0.9 }),
+        thumbnail.convertToBlob({ type: 'image/jpeg', quality: 0.8 }),
+      ]);
+      return { image, thumbnail: thumbnailBlob, width, height };
+    }
+    case 'board':
+      return processBoard(state, task);
+    case 'stitch':
+      return stitch(state, task);
+  }
+};
+
+const release = (slotId: string, kind: VisionTaskKind) => {
+  const state = slots.get(slotId);
+  if (!state) return;
+  if (kind === 'change') state.detector = null;
+  if (kind === 'board') {
+    state.rectifier = null;
+    state.cleaner = null;
+  }
+  if (kind === 'stitch') {
+    state.stitcher?.reset();
+    state.stitcher = null;
+  }
+  if (!state.detector && !state.rectifier && !state.cleaner && !state.stitcher) slots.delete(slotId);
+};
+
+const respond = async (id: number, work: () => Promise<VisionResult>) => {
+  try {
+    const result = await work();
+    const transfer: Transferable[] = [];
+    if ('jpeg' in result && result.jpeg) transfer.push(result.jpeg);
+    if ('image' in result && result.image instanceof ImageBitmap) transfer.push(result.image);
+    if ('markers' in result) transfer.push(...result.markers);
+    post({ type: 'result', id, result }, transfer);
+  } catch (err) {
+    post({ type: 'error', id, error: err instanceof Error ? err.message : String(err) });
+  }
+};
+
+self.onmessage = async (event: MessageEvent<VisionRequest>) => {
+  const request = event.data;
+  if (request.type === 'release') return release(request.slotId, request.kind);
+  if (request.type === 'load-opencv') {
+    loadOpenCV().catch(err => console.error('OpenCV.js failed to load in the vision worker:', err));
+    return;
+  }
+  if (request.type === 'render-markers') return respond(request.id, () => renderMarkers(request.ids, request.side));
+
+  const { id, slotId, task } = request;
+  try {
+    await respond(id, () => run(slotId, task));
+  } finally {
+    task.frame.close();
+    if (task.kind === 'stitch') task.right.close();
+  }
+};
@@ -0,0 +1,68 @@
+// Local stand-in for the Python analysis backend. Decodes every message from the console with
+// the reference decoder, logs it and echoes the decoded header back as JSON text. Every frame
+// also gets a demo annotations message so the console overlays can be checked offline.
+//
+//   npm run bridge:echo            # listens on ws://localhost:8765
+//   PORT=9000 npm run bridge:echo
+import { WebSocketServer, RawData } from 'ws';
+import { decodeMessage, MessageType, AnnotationsMessage } from '../lib/frameProtocol';
+
+const port = Number(process.env.PORT) || 8765;
+const server = new WebSocketServer({ port });
+
+const toBytes = (data: RawData): Uint8Array => {
+  if (Array.isArray(data)) return new Uint8Array(Buffer.concat(data));
+  if (data instanceof ArrayBuffer) return new Uint8Array(data);
+  return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+};
+
+const demoAnnotations = (slotId: string, seq: number, width: number, height: number): AnnotationsMessage => ({
+  type: 'annotations',
+  slotId,
+  layer: 'echo',
+  frameSeq: seq,
+  frameWidth: width,
+  frameHeight: height,
+  ttlMs: 500,
+  items: [
+    { kind: 'box', x: width * 0.25, y: height * 0.25, width: width * 0.5, height: height * 0.5, label: 'center' },
+    { kind: 'polyline', points: [[0, 0], [width, height]], color: '#f472b6' },
+    { kind: 'text', x: 16, y: height - 16, text: `${slotId} #${seq}`, color: '#fbbf24' },
+  ],
+});
+
+server.on('connection', (socket, request) => {
+  console.log(`Console connected from ${request.socket.remoteAddress}`);
+
+  socket.on('message', (data, isBinary) => {
+    if (!isBinary) {
+      console.log('Text message:', data.toString());
+      return;
+    }
+    try {
+      const message = decodeMessage(toBytes(data));
+      if (message.type === MessageType.Hello) {
+        console.log(`Hello v${message.version}:`, message.header.slots);
+      } else if (message.type === MessageType.Calibration) {
+        const { cameras, translation, reprojectionError } = message.header.calibration;
+        console.log(`Stereo calibration ${cameras[0].slotId} -> ${cameras[1].slotId}: T=[${translation.map(t => t.toFixed(3))}] m, ${reprojectionError.toFixed(2)} px`);
+      } else if (message.type === MessageType.Stats) {
+        const { slotId, stats } = message.header;
+        const fixed = (value: number | null, digits = 0) => value === null ? '?' : value.toFixed(digits);
+        console.log(`Stats ${slotId}: ${stats.width}x${stats.height} ${fixed(stats.fps)}fps ${fixed(stats.bitrateKbps)}kbps loss ${fixed(stats.packetLossPercent, 1)}% rtt ${fixed(stats.rttMs)}ms ${stats.codec} ${stats.localCandidateType}/${stats.remoteCandidateType}`);
+      } else {
+        const { slotId, seq, width, height, capturedAt } = message.header;
+        const latency = Date.now() - capturedAt;
+        console.log(`Frame ${slotId}#${seq} ${width}x${height} ${message.payload.byteLength}B (${latency}ms old)`);
+        socket.send(JSON.stringify(demoAnnotations(slotId, seq, width, height)));
+      }
+      socket.send(JSON.stringify({ type: 'echo', messageType: message.type, header: message.header }));
+    } catch (err) {
+      console.error('Could not decode message:', (err as Error).message);
+    }
+  });
+
+  socket.on('close', () => console.log('Console disconnected'));
+});
+
+console.log(`Echo server listening on ws://localhost:${port}`);
@@ -0,0 +1,26 @@
+// Downloads an OpenCV.js build into public/opencv/, where the console loads it from before trying
+// any CDN. Run once while online; the lab machines then work without network access.
+//
+//   npm run opencv:fetch                       # the contrib build with ArUco
+//   npm run opencv:fetch -- https://example.org/opencv.js
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { OPENCV_CDN_URLS } from '../lib/opencvLoader';
+
+const url = process.argv[2] || OPENCV_CDN_URLS[0];
+const target = path.resolve('public/opencv/opencv.js');
+
+const main = async () => {
+  console.log(`Downloading ${url}`);
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  const script = Buffer.from(await response.arrayBuffer());
+  await mkdir(path.dirname(target), { recursive: true });
+  await writeFile(target, script);
+  console.log(`Saved ${(script.byteLength / 1e6).toFixed(1)} MB to ${path.relative(process.cwd(), target)}`);
+};
+
+main().catch(err => {
+  console.error('Could not download OpenCV.js:', err.message);
+  process.exit(1);
+});
@@ -1,4 +1,5 @@
 import type Peer from 'peerjs';
+import type { QualityProfileId } from './lib/qualityProfiles';
 
 // This lets us use `window.Peer` without TypeScript errors.
 declare global {
@@ -17,4 +18,25 @@ declare global {
   }
 }
 
-export type ConnectionStatus = 'initializing' | 'waiting' | 'connecting' | 'streaming' | 'error';
\ No newline at end of file
+export type ConnectionStatus = 'initializing' | 'waiting' | 'connecting' | 'streaming' | 'reconnecting' | 'error';
+// Sent by the caster as PeerJS call metadata so the console knows which phone and camera it is.
+export interface CasterCallMetadata {
+  casterId: string;
+  cameraLabel: string;
+  // Console slot the caster claimed; only set on media calls
+  slotId?: string;
+  // Stream quality the caster asked for; the console orders the codecs to match
+  qualityProfile?: QualityProfileId;
+}
+
+// Stand-in camera for testing without phones: a generated whiteboard scene or a looping video file.
+export type TestSource =
+  | { type: 'scene'; noise: number; perspective: number }
+  | { type: 'file'; url: string };
+
+// Where a console slot gets its video from: a phone over PeerJS, a camera plugged into the laptop
+// or a test source.
+export type SlotSource =
+  | { kind: 'remote' }
+  | { kind: 'local'; deviceId: string | null }
+  | { kind: 'test'; source: TestSource };
@@ -12,7 +12,16 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.TRANSCRIBER': JSON.stringify(env.TRANSCRIBER || ''),
+        'process.env.OPENCV_URLS': JSON.stringify(env.OPENCV_URLS || ''),
+        'process.env.FRAME_BRIDGE_URL': JSON.stringify(env.FRAME_BRIDGE_URL || ''),
+        'process.env.PEER_HOST': JSON.stringify(env.PEER_HOST || ''),
+        'process.env.PEER_PORT': JSON.stringify(env.PEER_PORT || ''),
+        'process.env.PEER_PATH': JSON.stringify(env.PEER_PATH || ''),
+        'process.env.PEER_KEY': JSON.stringify(env.PEER_KEY || ''),
+        'process.env.PEER_SECURE': JSON.stringify(env.PEER_SECURE || ''),
+        'process.env.PEER_ICE_SERVERS': JSON.stringify(env.PEER_ICE_SERVERS || '')
       },
       resolve: {
         alias: {